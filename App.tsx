@@ -1,22 +1,35 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import Navbar from './components/Navbar';
 import VideoUploader from './components/VideoUploader';
 import Editor from './components/Editor';
 import UpgradeModal from './components/UpgradeModal';
+import RecentProjects from './components/RecentProjects';
 import { PlansView, AboutView, PrivacyView, TermsView } from './components/StaticPages';
-import { VideoClip, ProcessingState } from './types';
-import { analyzeVideoContent } from './services/geminiService';
+import { VideoClip, ProcessingState, EditorSettings, Project, Caption } from './types';
+import { DEFAULT_EDITOR_SETTINGS, DEFAULT_MUSIC_SETTINGS } from './constants';
+import { analyzeVideoContent, getAnalysisProvider } from './services/analysisService';
 import { userService } from './services/userService';
+import { projectService, createProjectId } from './services/projectService';
+import { presetService } from './services/presetService';
+import { releaseMediaUrl } from './services/mediaService';
 import { Loader2, Sparkles, AlertTriangle, Search } from 'lucide-react';
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState('home');
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [musicUrl, setMusicUrl] = useState<string | null>(null);
   const [clips, setClips] = useState<VideoClip[]>([]);
+  const [transcript, setTranscript] = useState<Caption[] | null>(null);
   const [processingState, setProcessingState] = useState<ProcessingState>({ status: 'IDLE' });
   const [activeSearchQuery, setActiveSearchQuery] = useState<string | undefined>(undefined);
+  const [editorSettings, setEditorSettings] = useState<EditorSettings>(DEFAULT_EDITOR_SETTINGS);
+
+  // Locally saved project backing the current editor session
+  const [project, setProject] = useState<Project | null>(null);
+  // Aborts the running analysis (e.g. a large upload) when the user leaves it
+  const analysisControllerRef = useRef<AbortController | null>(null);
   
   // Usage & Upgrade State
   const [usageCount, setUsageCount] = useState(0);
@@ -24,8 +37,20 @@ const App: React.FC = () => {
 
   useEffect(() => {
     setUsageCount(userService.getUsage());
+    // Uploaded caption fonts must be registered before previews or exports use them
+    presetService.registerFonts();
   }, []);
 
+  // Autosave edits (debounced) so a refresh doesn't lose the analysis
+  useEffect(() => {
+    if (!project || processingState.status !== 'COMPLETE') return;
+    const timer = setTimeout(() => {
+      projectService.saveProject({ ...project, clips, settings: editorSettings, ...(transcript ? { transcript } : {}) })
+        .catch(err => console.error("Failed to save project", err));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [project, clips, editorSettings, transcript, processingState.status]);
+
   const handleFileSelect = async (file: File, searchQuery?: string) => {
     if (userService.hasReachedLimit()) {
       setShowUpgradeModal(true);
@@ -38,28 +63,114 @@ const App: React.FC = () => {
     setVideoUrl(url);
     
     setProcessingState({ status: 'ANALYZING' });
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
 
     try {
-      const detectedClips = await analyzeVideoContent(file, searchQuery);
+      const detectedClips = await analyzeVideoContent(file, searchQuery, setProcessingState, controller.signal);
+      if (controller.signal.aborted) return;
       if (detectedClips.length === 0) {
         setProcessingState({ status: 'ERROR', message: "No matching clips found. Try a different video or query." });
       } else {
         setClips(detectedClips as VideoClip[]);
         setProcessingState({ status: 'COMPLETE' });
+
+        const now = Date.now();
+        const newProject: Project = {
+          id: createProjectId(),
+          name: file.name,
+          createdAt: now,
+          updatedAt: now,
+          videoName: file.name,
+          videoType: file.type,
+          clips: detectedClips,
+          settings: DEFAULT_EDITOR_SETTINGS
+        };
+        // Autosave only starts once the project (with its video) is stored, so a failed save
+        // can't leave a project in the Recent list that has no video to open
+        projectService.createProject(newProject, file)
+          .then(() => setProject(newProject))
+          .catch(err => {
+            console.error("Failed to save project", err);
+            alert("This project could not be saved on this device (storage may be full). You can keep editing, but it won't appear in Recent projects.");
+          });
       }
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error(err);
       setProcessingState({ status: 'ERROR', message: "Failed to analyze video. Please try again." });
+    } finally {
+      if (analysisControllerRef.current === controller) analysisControllerRef.current = null;
+    }
+  };
+
+  // Reopen a saved project straight into the Editor (no new analysis)
+  const handleOpenProject = async (projectId: string) => {
+    try {
+      const loaded = await projectService.loadProject(projectId);
+      if (!loaded) {
+        setProcessingState({ status: 'ERROR', message: "This project could not be found. It may have been removed." });
+        return;
+      }
+      if (videoUrl) releaseMediaUrl(videoUrl);
+      if (musicUrl) releaseMediaUrl(musicUrl);
+      const music = await projectService.loadMusic(projectId);
+      setVideoFile(loaded.video);
+      setVideoUrl(URL.createObjectURL(loaded.video));
+      setMusicUrl(music ? URL.createObjectURL(music) : null);
+      setClips(loaded.project.clips);
+      setTranscript(loaded.project.transcript || null);
+      // Projects saved before a setting existed pick up its default
+      const settings = { ...DEFAULT_EDITOR_SETTINGS, ...loaded.project.settings };
+      // Music settings without the file are no use
+      setEditorSettings(music ? settings : { ...settings, music: undefined });
+      setProject(loaded.project);
+      setProcessingState({ status: 'COMPLETE' });
+    } catch (err) {
+      console.error(err);
+      setProcessingState({ status: 'ERROR', message: "Failed to open project. Please try again." });
     }
   };
 
   const handleReset = () => {
-    if (videoUrl) URL.revokeObjectURL(videoUrl);
+    analysisControllerRef.current?.abort();
+    if (videoUrl) releaseMediaUrl(videoUrl);
+    if (musicUrl) releaseMediaUrl(musicUrl);
     setVideoFile(null);
     setVideoUrl(null);
+    setMusicUrl(null);
     setClips([]);
+    setTranscript(null);
     setProcessingState({ status: 'IDLE' });
     setActiveSearchQuery(undefined);
+    setEditorSettings(DEFAULT_EDITOR_SETTINGS);
+    setProject(null);
+  };
+
+  // Add, replace or (with null) remove the background music
+  const handleMusicChange = (file: File | null) => {
+    if (musicUrl) releaseMediaUrl(musicUrl);
+    setMusicUrl(file ? URL.createObjectURL(file) : null);
+    setEditorSettings(prev => ({
+      ...prev,
+      music: file ? { ...(prev.music || DEFAULT_MUSIC_SETTINGS), fileName: file.name } : undefined
+    }));
+    if (project) {
+      projectService.saveMusic(project.id, file)
+        .catch(err => console.error("Failed to save music", err));
+    }
+  };
+
+  const handleClipChange = (updatedClip: VideoClip) => {
+    setClips(prev => prev.map(c => (c.id === updatedClip.id ? updatedClip : c)));
+  };
+
+  const handleClipUpdate = (clipId: string, update: (clip: VideoClip) => VideoClip) => {
+    setClips(prev => prev.map(c => (c.id === clipId ? update(c) : c)));
+  };
+
+  const handleClipAdd = (clip: VideoClip) => {
+    setClips(prev => [...prev, clip]);
   };
 
   const handleExportCheck = (): boolean => {
@@ -116,6 +227,32 @@ const App: React.FC = () => {
                     usageCount={usageCount}
                     />
                 </div>
+
+                <div className="z-10 w-full px-4 mt-6">
+                    <RecentProjects onOpen={handleOpenProject} />
+                </div>
+            </div>
+        );
+    }
+
+    if (processingState.status === 'UPLOADING') {
+        const progress = processingState.progress ?? 0;
+        return (
+            <div className="flex-1 flex flex-col items-center justify-center min-h-[60vh] px-4">
+            <div className="relative">
+                <div className="absolute inset-0 bg-brand-500/20 blur-xl rounded-full"></div>
+                <Loader2 size={64} className="text-brand-500 animate-spin relative z-10" />
+            </div>
+            <h2 className="text-2xl font-bold mt-8 text-white">{processingState.message || "Uploading video..."}</h2>
+            <div className="w-full max-w-md mt-6">
+                <div className="w-full h-2 bg-dark-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-brand-500 transition-all duration-200 ease-linear" style={{ width: `${progress}%` }} />
+                </div>
+                <p className="text-sm text-gray-400 mt-2 text-center font-mono">{Math.round(progress)}%</p>
+            </div>
+            <p className="text-gray-400 mt-2 max-w-md text-center">
+                Large videos are uploaded in chunks before Gemini can watch them.
+            </p>
             </div>
         );
     }
@@ -129,7 +266,7 @@ const App: React.FC = () => {
             </div>
             <h2 className="text-2xl font-bold mt-8 text-white">Analyzing Content...</h2>
             <p className="text-gray-400 mt-2 max-w-md text-center">
-                Gemini is watching your video, 
+                {getAnalysisProvider().name} is watching your video, 
                 {activeSearchQuery ? " searching for your requested moments, " : " identifying viral moments, "}
                 and generating captions.
             </p>
@@ -163,7 +300,17 @@ const App: React.FC = () => {
         return (
             <Editor 
             videoUrl={videoUrl} 
+            videoFile={videoFile}
             clips={clips} 
+            settings={editorSettings}
+            onSettingsChange={setEditorSettings}
+            musicUrl={musicUrl}
+            onMusicChange={handleMusicChange}
+            onClipChange={handleClipChange}
+            onClipUpdate={handleClipUpdate}
+            onClipAdd={handleClipAdd}
+            transcript={transcript}
+            onTranscriptChange={setTranscript}
             onReset={handleReset}
             onExportCheck={handleExportCheck}
             onExportSuccess={handleExportSuccess}
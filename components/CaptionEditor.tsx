@@ -0,0 +1,326 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Caption, VideoClip } from '../types';
+import {
+  setCaptionTiming,
+  splitCaption,
+  mergeWithNext,
+  removeCaption,
+  insertCaption,
+  updateCaptionText
+} from '../services/captionService';
+import { toggleEnrichment, clearEnrichment } from '../services/enrichmentService';
+import { enrichCaptions } from '../services/geminiService';
+import { getAudioEnvelope, getWaveformPeaks } from '../services/mediaService';
+import { getClipDuration, getClipSegments } from '../services/segmentService';
+import { Captions, Scissors, Merge, Trash2, Plus, Loader2, Sparkles, Highlighter, X } from 'lucide-react';
+
+interface CaptionEditorProps {
+  videoUrl: string;
+  clip: VideoClip;
+  currentTime: number; // Relative to clip start
+  onChange: (captions: Caption[]) => void;
+  onSeek: (relativeTime: number) => void;
+}
+
+type DragMode = 'start' | 'end' | 'move';
+
+interface DragState {
+  index: number;
+  mode: DragMode;
+  originX: number;
+  originStart: number;
+  originEnd: number;
+}
+
+const WAVEFORM_BUCKETS = 300;
+
+const CaptionEditor: React.FC<CaptionEditorProps> = ({ videoUrl, clip, currentTime, onChange, onSeek }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [waveformError, setWaveformError] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [isEnriching, setIsEnriching] = useState(false);
+
+  const duration = getClipDuration(clip);
+  const captions = clip.captions;
+  const segments = getClipSegments(clip);
+  const segmentsKey = segments.map(s => `${s.startTime}-${s.endTime}`).join(',');
+
+  // Peaks for this clip's range (each segment's, joined) from the source's loudness envelope
+  useEffect(() => {
+    const controller = new AbortController();
+    setPeaks(null);
+    setWaveformError(false);
+
+    getAudioEnvelope(videoUrl, controller.signal)
+      .then(envelope => {
+        setPeaks(segments.flatMap(s => {
+          const buckets = Math.max(1, Math.round(WAVEFORM_BUCKETS * (s.endTime - s.startTime) / duration));
+          return getWaveformPeaks(envelope, s.startTime, s.endTime, buckets);
+        }));
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error("Waveform decode failed", err);
+        setWaveformError(true);
+      });
+
+    return () => controller.abort();
+  }, [videoUrl, segmentsKey]);
+
+  // Draw waveform
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const { width, height } = canvas;
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = 'rgba(139, 92, 246, 0.6)'; // brand-500
+    const barWidth = width / peaks.length;
+    peaks.forEach((peak, i) => {
+      const barHeight = Math.max(1, peak * height);
+      ctx.fillRect(i * barWidth, (height - barHeight) / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+  }, [peaks]);
+
+  // Pointer tracking for handle drags
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const track = trackRef.current;
+      if (!track) return;
+      const deltaTime = ((e.clientX - drag.originX) / track.clientWidth) * duration;
+
+      let start = drag.originStart;
+      let end = drag.originEnd;
+      if (drag.mode === 'start') start += deltaTime;
+      if (drag.mode === 'end') end += deltaTime;
+      if (drag.mode === 'move') {
+        start += deltaTime;
+        end += deltaTime;
+      }
+      onChange(setCaptionTiming(captions, drag.index, start, end, duration));
+    };
+
+    const handleUp = () => setDrag(null);
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, captions, duration, onChange]);
+
+  const startDrag = (e: React.PointerEvent, index: number, mode: DragMode) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setSelectedIndex(index);
+    setDrag({ index, mode, originX: e.clientX, originStart: captions[index].start, originEnd: captions[index].end });
+  };
+
+  const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = ((e.clientX - rect.left) / rect.width) * duration;
+    onSeek(Math.max(0, Math.min(duration, time)));
+  };
+
+  const handleNumberChange = (index: number, field: 'start' | 'end', value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    const cap = captions[index];
+    const start = field === 'start' ? parsed : cap.start;
+    const end = field === 'end' ? parsed : cap.end;
+    onChange(setCaptionTiming(captions, index, start, end, duration));
+  };
+
+  const handleEnrich = async () => {
+    setIsEnriching(true);
+    try {
+      onChange(await enrichCaptions(captions));
+    } catch (err) {
+      console.error("Caption enrichment failed", err);
+      alert("Could not add emojis and key words. Please try again.");
+    } finally {
+      setIsEnriching(false);
+    }
+  };
+
+  const hasEnrichment = captions.some(c => c.enrichment);
+
+  const toPercent = (time: number) => `${(time / duration) * 100}%`;
+
+  return (
+    <div className="bg-dark-800 rounded-xl border border-dark-700 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <Captions size={14} className="text-brand-400" />
+          Caption Track
+        </h3>
+        <div className="flex items-center gap-2">
+          {hasEnrichment && (
+            <button
+              onClick={() => onChange(clearEnrichment(captions))}
+              title="Remove all emojis and key word colours"
+              className="p-1 rounded-md text-gray-500 hover:text-white hover:bg-dark-600 transition"
+            >
+              <X size={12} />
+            </button>
+          )}
+          <button
+            onClick={handleEnrich}
+            disabled={isEnriching || captions.length === 0}
+            title="Add contextual emojis and colour key words"
+            className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-dark-700 hover:bg-dark-600 text-gray-300 hover:text-white transition disabled:opacity-50"
+          >
+            {isEnriching ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />} Emoji & Keywords
+          </button>
+          <button
+            onClick={() => onChange(insertCaption(captions, currentTime, duration))}
+            className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-dark-700 hover:bg-dark-600 text-gray-300 hover:text-white transition"
+          >
+            <Plus size={12} /> Add at playhead
+          </button>
+        </div>
+      </div>
+
+      {/* Waveform + caption blocks */}
+      <div
+        ref={trackRef}
+        onClick={handleTrackClick}
+        className="relative h-20 bg-dark-900 rounded-lg border border-dark-600 overflow-hidden cursor-pointer select-none"
+      >
+        <canvas ref={canvasRef} width={WAVEFORM_BUCKETS * 2} height={80} className="absolute inset-0 w-full h-full" />
+        {!peaks && (
+          <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-500 gap-2">
+            {waveformError ? 'Waveform unavailable' : <><Loader2 size={12} className="animate-spin" /> Loading waveform...</>}
+          </div>
+        )}
+
+        {captions.map((cap, i) => (
+          <div
+            key={i}
+            onPointerDown={(e) => startDrag(e, i, 'move')}
+            onClick={(e) => {
+              e.stopPropagation();
+              setSelectedIndex(i);
+              onSeek(cap.start);
+            }}
+            className={`
+              absolute top-2 bottom-2 rounded border text-[10px] text-white px-2 overflow-hidden whitespace-nowrap cursor-grab
+              ${selectedIndex === i ? 'bg-brand-500/50 border-brand-300' : 'bg-brand-900/50 border-brand-500/50 hover:bg-brand-800/50'}
+            `}
+            style={{ left: toPercent(cap.start), width: toPercent(cap.end - cap.start) }}
+            title={cap.text}
+          >
+            <div
+              onPointerDown={(e) => startDrag(e, i, 'start')}
+              className="absolute left-0 top-0 bottom-0 w-1.5 bg-brand-300/70 cursor-ew-resize"
+            />
+            <span className="leading-[3.5rem]">{cap.text}</span>
+            <div
+              onPointerDown={(e) => startDrag(e, i, 'end')}
+              className="absolute right-0 top-0 bottom-0 w-1.5 bg-brand-300/70 cursor-ew-resize"
+            />
+          </div>
+        ))}
+
+        {/* Playhead */}
+        <div
+          className="absolute top-0 bottom-0 w-px bg-yellow-400 pointer-events-none"
+          style={{ left: toPercent(Math.max(0, Math.min(duration, currentTime))) }}
+        />
+      </div>
+
+      {/* Caption list */}
+      <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+        {captions.map((cap, i) => (
+          <div
+            key={i}
+            onClick={() => setSelectedIndex(i)}
+            className={`flex items-center gap-2 p-2 rounded-lg border transition ${selectedIndex === i ? 'border-brand-500 bg-brand-900/20' : 'border-dark-600 bg-dark-700/50'}`}
+          >
+            <div className="flex flex-col gap-1 shrink-0">
+              <input
+                type="number"
+                step="0.01"
+                value={cap.start}
+                onChange={(e) => handleNumberChange(i, 'start', e.target.value)}
+                className="w-16 bg-dark-900 border border-dark-600 rounded px-1 py-0.5 text-[10px] font-mono text-gray-300 outline-none focus:border-brand-500"
+              />
+              <input
+                type="number"
+                step="0.01"
+                value={cap.end}
+                onChange={(e) => handleNumberChange(i, 'end', e.target.value)}
+                className="w-16 bg-dark-900 border border-dark-600 rounded px-1 py-0.5 text-[10px] font-mono text-gray-300 outline-none focus:border-brand-500"
+              />
+            </div>
+            <input
+              type="text"
+              value={cap.text}
+              onChange={(e) => onChange(updateCaptionText(captions, i, e.target.value))}
+              onFocus={() => onSeek(cap.start)}
+              className="flex-1 min-w-0 bg-dark-900 border border-dark-600 rounded px-2 py-1.5 text-xs text-white outline-none focus:border-brand-500"
+            />
+            <div className="flex gap-1 shrink-0">
+              {cap.enrichment?.emoji && (
+                <button
+                  onClick={() => onChange(toggleEnrichment(captions, i, 'showEmoji'))}
+                  title={cap.enrichment.showEmoji ? 'Hide emoji' : 'Show emoji'}
+                  className={`w-6 rounded text-xs hover:bg-dark-600 transition ${cap.enrichment.showEmoji ? '' : 'opacity-30 grayscale'}`}
+                >
+                  {cap.enrichment.emoji}
+                </button>
+              )}
+              {cap.enrichment && cap.enrichment.highlights.length > 0 && (
+                <button
+                  onClick={() => onChange(toggleEnrichment(captions, i, 'showHighlights'))}
+                  title={cap.enrichment.showHighlights ? 'Hide key word colours' : 'Show key word colours'}
+                  className={`p-1.5 rounded hover:bg-dark-600 transition ${cap.enrichment.showHighlights ? 'text-yellow-400' : 'text-gray-600'}`}
+                >
+                  <Highlighter size={12} />
+                </button>
+              )}
+              <button
+                onClick={() => onChange(splitCaption(captions, i))}
+                title="Split"
+                className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-dark-600 transition"
+              >
+                <Scissors size={12} />
+              </button>
+              <button
+                onClick={() => onChange(mergeWithNext(captions, i))}
+                disabled={i === captions.length - 1}
+                title="Merge with next"
+                className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-dark-600 transition disabled:opacity-30"
+              >
+                <Merge size={12} />
+              </button>
+              <button
+                onClick={() => {
+                  onChange(removeCaption(captions, i));
+                  setSelectedIndex(null);
+                }}
+                title="Delete"
+                className="p-1.5 rounded text-gray-400 hover:text-red-400 hover:bg-dark-600 transition"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          </div>
+        ))}
+        {captions.length === 0 && (
+          <p className="text-xs text-gray-500 text-center py-4">No captions. Add one at the playhead.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CaptionEditor;
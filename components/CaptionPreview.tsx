@@ -0,0 +1,46 @@
+import React, { useEffect, useRef } from 'react';
+import { Caption, CustomCaptionStyle, Template } from '../types';
+import { CAPTION_REFERENCE_SIZE, drawCaption, loadCaptionFont, resolveCaptionStyle } from '../services/captionRenderer';
+
+interface CaptionPreviewProps {
+  template: Template;
+  customStyle?: CustomCaptionStyle;
+  text?: string;
+  className?: string;
+}
+
+// Sample caption drawn with the export renderer, centered in the box, second word highlighted
+const CaptionPreview: React.FC<CaptionPreviewProps> = ({ template, customStyle, text = 'Viral Caption', className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const style = resolveCaptionStyle(template, customStyle);
+
+    const draw = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx || cancelled) return;
+      canvas.width = Math.round(canvas.clientWidth * window.devicePixelRatio);
+      canvas.height = Math.round(canvas.clientHeight * window.devicePixelRatio);
+
+      const words = text.split(/\s+/);
+      const caption: Caption = {
+        text,
+        start: 0,
+        end: words.length,
+        words: words.map((word, i) => ({ text: word, start: i, end: i + 1 }))
+      };
+      // Scale as if the box were the width of a portrait frame, after the entrance animation
+      drawCaption(ctx, caption, Math.min(1.5, words.length - 0.5), { ...style, position: { x: 0.5, y: 0.5 } }, canvas.width / CAPTION_REFERENCE_SIZE);
+    };
+
+    draw();
+    loadCaptionFont(style).then(draw);
+    return () => { cancelled = true; };
+  }, [template, customStyle, text]);
+
+  return <canvas ref={canvasRef} className={`w-full h-full ${className}`} />;
+};
+
+export default CaptionPreview;
@@ -1,181 +1,244 @@
 
-import React, { useState, useEffect } from 'react';
-import { VideoClip, Template, ClipStyle, CustomCaptionStyle } from '../types';
-import { TEMPLATES } from '../constants';
-import Player from './Player';
-import { Download, Sparkles, Wand2, Scissors, Share2, AlertCircle, Type, Palette, Droplets, Twitter, Facebook, Linkedin, Copy, Check, X, MessageCircle } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { VideoClip, ClipStyle, CustomCaptionStyle, Caption, EditorSettings, UploadedFont, CaptionAnimation, EmphasisAnimation, AspectRatio, OutputResolution, FitMode, OutputSettings, MusicSettings, SpeakerSettings, ProcessingState } from '../types';
+import { TEMPLATES, CAPTION_FONTS, CAPTION_LANGUAGES, CAPTION_ANIMATIONS, EMPHASIS_ANIMATIONS, ASPECT_RATIOS, RESOLUTIONS, FIT_MODES, getOutputSize } from '../constants';
+import { rebaseCaptions } from '../services/captionService';
+import { downloadBlob, getExportBaseName } from '../services/mediaService';
+import { rebaseCropPath } from '../services/reframeService';
+import { resolveCaptionStyle } from '../services/captionRenderer';
+import { getClipDuration, isSupercut, toClipTime, toSourceTime } from '../services/segmentService';
+import { getEditedClip } from '../services/jumpCutService';
+import { createManualClip } from '../services/clipService';
+import { getSpeakerColor, getSpeakerLabels, updateSpeaker } from '../services/speakerService';
+import { transcribeRange } from '../services/analysisService';
+import { translateCaptions } from '../services/geminiService';
+import { mapCaptionTracks, removeCaptionTrack, setCaptionTrack, withCaptionTrack } from '../services/translationService';
+import { presetService } from '../services/presetService';
+import { exportClip, exportAllClips, packageClips, getRenderKey, startExportJob, isExportCancelled, getExportErrorMessage, isWebCodecsSupported, BatchItem, ExportJob, ExportResult, RenderSettings } from '../services/exportService';
+import { SubtitleFormat, SUBTITLE_MIME_TYPES, serializeSubtitles, parseSubtitles } from '../services/subtitleService';
+import { normalizeTranscription } from '../services/clipValidation';
+import Player, { PlayerHandle } from './Player';
+import CaptionEditor from './CaptionEditor';
+import TrimBar from './TrimBar';
+import ReframePanel from './ReframePanel';
+import SegmentStrip from './SegmentStrip';
+import JumpCutPanel from './JumpCutPanel';
+import SourceTimeline from './SourceTimeline';
+import TranscriptPanel from './TranscriptPanel';
+import ExportQueue from './ExportQueue';
+import CaptionPreview from './CaptionPreview';
+import PresetPanel from './PresetPanel';
+import { Download, Sparkles, Wand2, Scissors, Share2, AlertCircle, Type, Palette, Droplets, Twitter, Facebook, Linkedin, Copy, Check, X, MessageCircle, Subtitles, Upload, AlertTriangle, Monitor, Package, Music, Users, Languages, Loader2 } from 'lucide-react';
 
 interface EditorProps {
   videoUrl: string;
+  videoFile: File | null; // Source file, for transcribing manually created clips
   clips: VideoClip[];
+  settings: EditorSettings;
+  onSettingsChange: React.Dispatch<React.SetStateAction<EditorSettings>>;
+  musicUrl: string | null;
+  onMusicChange: (file: File | null) => void;
+  onClipChange: (clip: VideoClip) => void;
+  onClipUpdate: (clipId: string, update: (clip: VideoClip) => VideoClip) => void; // Applied to the latest version of the clip
+  onClipAdd: (clip: VideoClip) => void;
+  transcript: Caption[] | null; // Whole-source transcript, saved with the project
+  onTranscriptChange: (transcript: Caption[]) => void;
   onReset: () => void;
   onExportCheck: () => boolean;
   onExportSuccess: () => void;
 }
 
-const Editor: React.FC<EditorProps> = ({ videoUrl, clips, onReset, onExportCheck, onExportSuccess }) => {
+const Editor: React.FC<EditorProps> = ({ videoUrl, videoFile, clips, settings, onSettingsChange, musicUrl, onMusicChange, onClipChange, onClipUpdate, onClipAdd, transcript, onTranscriptChange, onReset, onExportCheck, onExportSuccess }) => {
   const [selectedClipId, setSelectedClipId] = useState<string>(clips[0]?.id || "");
-  const [selectedTemplateId, setSelectedTemplateId] = useState<ClipStyle>(ClipStyle.MODERN);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportJobRef = useRef<ExportJob<ExportResult> | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[] | null>(null);
+  const [isBatchExporting, setIsBatchExporting] = useState(false);
+  const batchJobRef = useRef<ExportJob<void> | null>(null);
+  const batchResultsRef = useRef(new Map<string, ExportResult>());
+
+  // Playback position (absolute, in the source video) reported by the Player
+  const playerRef = useRef<PlayerHandle>(null);
+  const [playheadTime, setPlayheadTime] = useState(0);
+  // Stable so the transcript's paragraphs don't re-render on every frame
+  const seekSource = useCallback((time: number) => playerRef.current?.seek(time), []);
+  const [sourceDuration, setSourceDuration] = useState(0);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const musicInputRef = useRef<HTMLInputElement>(null);
+  const [uploadedFonts, setUploadedFonts] = useState<UploadedFont[]>([]);
 
   // Share State
   const [showShareModal, setShowShareModal] = useState(false);
   const [lastExportedBlob, setLastExportedBlob] = useState<Blob | null>(null);
   const [isCopied, setIsCopied] = useState(false);
+  const [creatingClip, setCreatingClip] = useState<ProcessingState | null>(null); // While a new clip's range is transcribed
+  const createClipRef = useRef<AbortController | null>(null);
+  const [translateTarget, setTranslateTarget] = useState('hi');
+  const [translatingClipId, setTranslatingClipId] = useState<string | null>(null);
+
+  // Template & Custom Style (owned by App so they are saved with the project)
+  const { templateId: selectedTemplateId, customStyle } = settings;
+  const setSelectedTemplateId = (templateId: ClipStyle) => onSettingsChange({ ...settings, templateId });
+  const setCustomStyle = (style: CustomCaptionStyle) => onSettingsChange({ ...settings, customStyle: style });
+  const { output } = settings;
+  const setOutput = (changes: Partial<OutputSettings>) => onSettingsChange({ ...settings, output: { ...output, ...changes } });
+  // Background music (the file itself is kept by App, next to the video)
+  const music = useMemo(
+    () => (settings.music && musicUrl ? { url: musicUrl, settings: settings.music } : undefined),
+    [musicUrl, settings.music]
+  );
+  const speakers = settings.speakers;
+  const setSpeakers = (next: SpeakerSettings) => onSettingsChange({ ...settings, speakers: next });
+  // Everyone labelled in the clips or the transcript, in order of first appearance
+  const speakerLabels = useMemo(
+    () => getSpeakerLabels([...clips.map(c => c.captions), transcript || []]),
+    [clips, transcript]
+  );
+  const setMusicSettings = (changes: Partial<MusicSettings>) => {
+    if (settings.music) onSettingsChange({ ...settings, music: { ...settings.music, ...changes } });
+  };
 
-  // Custom Style State
-  const [customStyle, setCustomStyle] = useState<CustomCaptionStyle>({
-    textColor: '#ffffff',
-    backgroundColor: '#000000',
-    bgOpacity: 50, // Default 50%
-    fontWeight: '800' // Default Bold
-  });
+  // Caption track shown in the preview and burned into exports; clips without it show their original captions
+  const captionLanguage = settings.captionLanguage;
+  const setCaptionLanguage = (language: string | undefined) => onSettingsChange({ ...settings, captionLanguage: language });
+  // What the preview and exports show: the chosen caption track with the jump cut applied (editors work on the uncut clip)
+  const getShownClip = (clip: VideoClip) => getEditedClip(withCaptionTrack(clip, captionLanguage));
 
   const currentClip = clips.find(c => c.id === selectedClipId) || null;
+  const editedClip = useMemo(() => (currentClip ? getShownClip(currentClip) : null), [currentClip, captionLanguage]);
+  // Every language some clip has been translated into, in the order of the language list
+  const trackLanguages = Object.keys(CAPTION_LANGUAGES).filter(language => clips.some(c => c.captionTracks?.[language]));
   const currentTemplate = TEMPLATES.find(t => t.id === selectedTemplateId) || TEMPLATES[0];
+  // Effective caption look, used to show the template's values in the fine tuning controls
+  const captionStyle = resolveCaptionStyle(currentTemplate, customStyle);
 
   // Reset export blob when clip changes
   useEffect(() => {
     setLastExportedBlob(null);
   }, [selectedClipId]);
 
-  // Helper: Hex to RGBA string
-  const hexToRgba = (hex: string, alphaPercent: number) => {
-    const cleanHex = hex.replace('#', '');
-    const r = parseInt(cleanHex.substring(0, 2), 16);
-    const g = parseInt(cleanHex.substring(2, 4), 16);
-    const b = parseInt(cleanHex.substring(4, 6), 16);
-    return `rgba(${r}, ${g}, ${b}, ${alphaPercent / 100})`;
+  useEffect(() => {
+    presetService.listFonts()
+      .then(setUploadedFonts)
+      .catch(err => console.error("Failed to load fonts", err));
+  }, []);
+
+  const handleCaptionsChange = (captions: Caption[]) => {
+    if (!currentClip) return;
+    onClipChange(setCaptionTrack(currentClip, captionLanguage, captions));
+  };
+
+  // Move the clip's in/out points; captions (in every language) are relative to the clip start so shift them along
+  const handleTrim = (startTime: number, endTime: number) => {
+    if (!currentClip) return;
+    const tracks = mapCaptionTracks(currentClip, captions => rebaseCaptions(captions, startTime - currentClip.startTime, endTime - startTime));
+    const cropPath = rebaseCropPath(currentClip.cropPath, startTime - currentClip.startTime);
+    onClipChange({ ...currentClip, startTime, endTime, ...tracks, cropPath });
   };
 
-  // Helper: Get Font Family based on Template ID for export
-  const getFontFamily = (templateId: ClipStyle) => {
-    switch(templateId) {
-        case ClipStyle.BOLD: return 'serif';
-        case ClipStyle.MINIMAL: return 'monospace';
-        case ClipStyle.NEON: 
-        case ClipStyle.GAME:
-        case ClipStyle.MODERN:
-        default: return 'sans-serif';
+  // Translate the original captions of one clip, or of every clip, into a new caption track
+  // and show it. Clips are translated one at a time; a failure stops the rest. Edits made
+  // while a translation runs are kept: each track is merged into the clip as it is by then.
+  const handleTranslate = async (targets: VideoClip[]) => {
+    const language = translateTarget;
+    try {
+      for (const clip of targets) {
+        if (clip.captions.length === 0) continue;
+        setTranslatingClipId(clip.id);
+        const track = await translateCaptions(clip.captions, CAPTION_LANGUAGES[language]);
+        onClipUpdate(clip.id, latest => ({ ...latest, captionTracks: { ...latest.captionTracks, [language]: track } }));
+      }
+      onSettingsChange(prev => ({ ...prev, captionLanguage: language }));
+    } catch (err) {
+      console.error("Translation failed", err);
+      alert(`Could not translate the captions into ${CAPTION_LANGUAGES[language]}. Please try again.`);
+    } finally {
+      setTranslatingClipId(null);
     }
   };
 
-  // Helper to draw captions on canvas matching the CSS styles + Custom Overrides
-  const drawCaption = (ctx: CanvasRenderingContext2D, time: number, clip: VideoClip, template: Template) => {
-    const relativeTime = time - clip.startTime;
-    const activeCaption = clip.captions.find(c => relativeTime >= c.start && relativeTime <= c.end);
-    
-    if (!activeCaption) return;
-    const text = activeCaption.text;
+  // A range still being transcribed is abandoned when the editor closes
+  useEffect(() => () => createClipRef.current?.abort(), []);
 
-    const w = ctx.canvas.width;
-    const h = ctx.canvas.height;
-    
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-
-    let x = w / 2;
-    let y = h * 0.75; // Default bottom position
-
-    // Common override styles
-    const fontStr = `${customStyle.fontWeight} ${template.id === ClipStyle.NEON ? 'italic' : ''} ${template.id === ClipStyle.MODERN ? '60px' : template.id === ClipStyle.MINIMAL ? '45px' : template.id === ClipStyle.BOLD ? '80px' : '70px'} ${getFontFamily(template.id)}`;
-    ctx.font = fontStr;
-
-    // Background Color with Opacity
-    const bgColor = hexToRgba(customStyle.backgroundColor, customStyle.bgOpacity);
-    const textColor = customStyle.textColor;
-
-    switch (template.id) {
-      case ClipStyle.MODERN:
-        const metrics = ctx.measureText(text);
-        const padding = 30;
-        
-        ctx.fillStyle = bgColor;
-        // Draw rounded rect approximation
-        ctx.fillRect(x - metrics.width/2 - padding, y - 50, metrics.width + padding*2, 100);
-        
-        ctx.fillStyle = textColor;
-        ctx.shadowColor = 'rgba(0,0,0,0.5)';
-        ctx.shadowBlur = 10;
-        ctx.fillText(text, x, y);
-        ctx.shadowBlur = 0;
-        break;
-
-      case ClipStyle.NEON:
-        y = h * 0.7;
-        // Neon typically doesn't have a bg box, but if user requests opacity > 0, we can apply it
-        if (customStyle.bgOpacity > 0) {
-             const m = ctx.measureText(text.toUpperCase());
-             ctx.fillStyle = bgColor;
-             ctx.fillRect(x - m.width/2 - 10, y - 50, m.width + 20, 100);
-        }
+  // New clip from a range of the source timeline. Only that range is transcribed; the clip
+  // then goes through the same editing and export as the analysed ones. Cancelling the
+  // transcription (or its upload) doesn't add the clip.
+  const handleCreateClip = async (startTime: number, endTime: number) => {
+    let clip = createManualClip(startTime, endTime);
+    const controller = new AbortController();
+    createClipRef.current = controller;
+    setCreatingClip({ status: 'ANALYZING' });
+    try {
+      if (videoFile) {
+        const { captions, warnings } = await transcribeRange(videoFile, clip.startTime, clip.endTime, {
+          onProgress: setCreatingClip,
+          signal: controller.signal
+        });
+        clip = { ...clip, captions, ...(warnings.length > 0 ? { warnings } : {}) };
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Transcription failed", err);
+      alert("Could not transcribe this range. The clip was added without captions.");
+    } finally {
+      if (createClipRef.current === controller) createClipRef.current = null;
+      setCreatingClip(null);
+    }
+    handleAddClip(clip);
+  };
+
+  const handleAddClip = (clip: VideoClip) => {
+    onClipAdd(clip);
+    setIsPlaying(false);
+    setSelectedClipId(clip.id);
+  };
+
+  // Playhead in the finished short's timeline, which differs from the source for supercuts
+  const clipTime = currentClip ? toClipTime(currentClip, playheadTime) : 0;
+  const seekClip = (relativeTime: number) => {
+    if (currentClip) playerRef.current?.seek(toSourceTime(currentClip, relativeTime));
+  };
 
-        ctx.shadowColor = '#d946ef'; // Fuchsia Glow (Hardcoded style of template)
-        ctx.shadowBlur = 30;
-        ctx.fillStyle = textColor; // User Override
-        ctx.fillText(text.toUpperCase(), x, y);
-        ctx.shadowBlur = 0;
-        
-        ctx.lineWidth = 2;
-        ctx.strokeStyle = '#a21caf';
-        ctx.strokeText(text.toUpperCase(), x, y);
-        break;
-
-      case ClipStyle.BOLD:
-        y = h * 0.3; // Top
-        ctx.save();
-        ctx.translate(x, y);
-        ctx.rotate(-2 * Math.PI / 180); // -2 deg rotation
-        
-        const mBold = ctx.measureText(text.toUpperCase());
-        
-        ctx.fillStyle = bgColor; // User Override (Default Red in template, but now custom)
-        ctx.shadowColor = 'rgba(0,0,0,0.5)';
-        ctx.shadowBlur = 20;
-        ctx.fillRect(-mBold.width/2 - 30, -60, mBold.width + 60, 120);
-        
-        ctx.fillStyle = textColor;
-        ctx.shadowBlur = 0;
-        ctx.fillText(text.toUpperCase(), 0, 0);
-        ctx.restore();
-        break;
-
-      case ClipStyle.MINIMAL:
-        y = h * 0.85;
-        const mMin = ctx.measureText(text);
-        
-        ctx.fillStyle = bgColor;
-        ctx.fillRect(x - mMin.width/2 - 20, y - 40, mMin.width + 40, 80);
-        
-        ctx.fillStyle = textColor;
-        ctx.fillText(text, x, y);
-        break;
-
-      case ClipStyle.GAME:
-         y = h * 0.8;
-         if (customStyle.bgOpacity > 0) {
-            const m = ctx.measureText(text);
-            ctx.fillStyle = bgColor;
-            ctx.fillRect(x - m.width/2 - 10, y - 50, m.width + 20, 100);
-         }
-
-         ctx.lineWidth = 8;
-         ctx.lineJoin = 'round';
-         ctx.strokeStyle = '#000000';
-         ctx.strokeText(text, x, y);
-         
-         ctx.fillStyle = textColor;
-         ctx.fillText(text, x, y);
-         
-         ctx.shadowColor = '#000';
-         ctx.shadowOffsetX = 4;
-         ctx.shadowOffsetY = 4;
-         ctx.shadowBlur = 0;
-         ctx.fillText(text, x, y);
-         ctx.shadowColor = 'transparent';
-         break;
+  const handleSubtitleExport = (format: SubtitleFormat) => {
+    if (!currentClip) return;
+    const content = serializeSubtitles(format, getShownClip(currentClip).captions, currentTemplate, customStyle, currentClip.title, speakers);
+    downloadBlob(new Blob([content], { type: SUBTITLE_MIME_TYPES[format] }), `${getExportBaseName(currentClip.title)}.${format}`);
+  };
+
+  // Replace the captions of the track being shown with an uploaded SRT/VTT file
+  const handleSubtitleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-importing the same file
+    if (!file || !currentClip) return;
+
+    try {
+      // Same checks as a transcription: reversed, overlapping and out-of-clip cues are repaired or dropped
+      const { captions, warnings } = normalizeTranscription(parseSubtitles(await file.text(), speakers, speakerLabels), getClipDuration(currentClip));
+      if (warnings.length > 0) console.warn("Repaired imported subtitles:", warnings);
+      if (captions.length === 0) throw new Error("No subtitle cues within the clip");
+      onClipChange(setCaptionTrack(currentClip, captionLanguage, captions));
+    } catch (err) {
+      console.error("Subtitle import failed", err);
+      alert("Could not read subtitles. Please upload a valid SRT or WebVTT file.");
+    }
+  };
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const font = await presetService.addFont(file);
+      setUploadedFonts(await presetService.listFonts());
+      setCustomStyle({ ...customStyle, fontFamily: font.family });
+    } catch (err) {
+      console.error("Font upload failed", err);
+      alert((err as Error).message);
     }
   };
 
@@ -188,139 +251,95 @@ const Editor: React.FC<EditorProps> = ({ videoUrl, clips, onReset, onExportCheck
     // Stop preview if playing
     setIsPlaying(false);
     setIsExporting(true);
+    setExportError(null);
     setExportProgress(0);
 
-    const canvas = document.createElement('canvas');
-    // Shorts resolution
-    canvas.width = 1080;
-    canvas.height = 1920; 
-    const ctx = canvas.getContext('2d');
-    if(!ctx) return;
-
-    // Create a detached video element for rendering
-    const exportVid = document.createElement('video');
-    exportVid.src = videoUrl;
-    exportVid.crossOrigin = "anonymous";
-    exportVid.muted = false; // We want audio
-    exportVid.playsInline = true;
-
-    // Load metadata
-    await new Promise((resolve) => {
-        exportVid.onloadedmetadata = () => resolve(true);
-    });
-
-    // Setup Audio Context for mixing
-    const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-    const actx = new AudioContext();
-    const source = actx.createMediaElementSource(exportVid);
-    const dest = actx.createMediaStreamDestination();
-    
-    source.connect(dest);
-    source.connect(actx.destination); // Let user hear the export process
+    const job = startExportJob((signal, onActivity, setBusy) => exportClip({
+      videoUrl,
+      clip: getShownClip(currentClip),
+      template: currentTemplate,
+      customStyle,
+      output,
+      music,
+      speakers,
+      signal,
+      onBusy: setBusy,
+      onProgress: progress => {
+        onActivity();
+        setExportProgress(progress);
+      }
+    }));
+    exportJobRef.current = job;
 
-    // Create stream from canvas + audio
-    const stream = canvas.captureStream(30); // 30 FPS
-    if (dest.stream.getAudioTracks().length > 0) {
-        stream.addTrack(dest.stream.getAudioTracks()[0]);
-    }
-
-    const recorder = new MediaRecorder(stream, {
-        mimeType: 'video/webm;codecs=vp9'
-    });
-    
-    const chunks: Blob[] = [];
-    recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
-    
-    recorder.onstop = () => {
-        // Create Blob
-        const blob = new Blob(chunks, { type: 'video/webm' });
-        setLastExportedBlob(blob); // Save for sharing
-
-        // Download
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `ClipGenius_${currentClip.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.webm`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-        
-        // Cleanup
-        setIsExporting(false);
-        actx.close();
-        exportVid.remove();
-        canvas.remove();
-
-        // 2. Increment Usage Count
-        onExportSuccess();
-
-        // Optional: Open share modal after export
-        // setShowShareModal(true); 
-    };
-
-    // Prepare Video
-    exportVid.currentTime = currentClip.startTime;
-    
-    recorder.start();
-    
     try {
-      await exportVid.play();
-    } catch (e) {
-      console.error("Export play failed", e);
+      const { blob, extension } = await job.result;
+      setLastExportedBlob(blob); // Save for sharing
+      downloadBlob(blob, `${getExportBaseName(currentClip.title)}.${extension}`);
+
+      // 2. Increment Usage Count (only for a finished render)
+      onExportSuccess();
+    } catch (err) {
+      if (!isExportCancelled(err)) {
+        console.error("Export failed", err);
+        setExportError(getExportErrorMessage(err));
+      }
+    } finally {
+      exportJobRef.current = null;
       setIsExporting(false);
-      return;
     }
+  };
 
-    // Render Loop
-    const renderFrame = () => {
-        // Check if finished or cancelled
-        if (exportVid.paused || exportVid.ended || exportVid.currentTime >= currentClip.endTime) {
-            recorder.stop();
-            exportVid.pause();
-            return;
-        }
+  // What the batch renders with; a change to any of it means the clips have to be rendered again
+  const getRenderSettings = (): RenderSettings => ({ videoUrl, template: currentTemplate, customStyle, output, music, speakers });
 
-        // Update Progress
-        const progress = ((exportVid.currentTime - currentClip.startTime) / (currentClip.endTime - currentClip.startTime)) * 100;
-        setExportProgress(Math.min(progress, 100));
-
-        // 1. Clear Canvas
-        ctx.fillStyle = '#000';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-        // 2. Draw Video (Cover Logic for 9:16)
-        const vidRatio = exportVid.videoWidth / exportVid.videoHeight;
-        const canvasRatio = canvas.width / canvas.height;
-        let drawW, drawH, drawX, drawY;
-
-        if (vidRatio > canvasRatio) {
-            // Video is wider than canvas (landscape -> portrait)
-            drawH = canvas.height;
-            drawW = drawH * vidRatio;
-            drawX = (canvas.width - drawW) / 2;
-            drawY = 0;
-        } else {
-            drawW = canvas.width;
-            drawH = drawW / vidRatio;
-            drawX = 0;
-            drawY = (canvas.height - drawH) / 2;
-        }
-        ctx.drawImage(exportVid, drawX, drawY, drawW, drawH);
+  // The ZIP holds whatever in the batch is still up to date with the clips and settings as they are now
+  const downloadBatch = async (settings = getRenderSettings()) => {
+    const zip = await packageClips(clips.map(getShownClip), batchResultsRef.current, settings);
+    downloadBlob(zip, 'ClipGenius_shorts.zip');
+  };
 
-        // 3. Draw Overlays
-        drawCaption(ctx, exportVid.currentTime, currentClip, currentTemplate);
+  // Render every clip in the background and download them together as one ZIP.
+  // With `resume`, clips finished by the previous run are kept instead of re-rendered.
+  const handleExportAll = async (resume = false) => {
+    if (!videoUrl || clips.length === 0 || !onExportCheck()) return;
+    if (!resume) batchResultsRef.current = new Map();
 
-        requestAnimationFrame(renderFrame);
-    };
+    setIsPlaying(false);
+    setIsBatchExporting(true);
+    const settings = getRenderSettings();
+    const shownClips = clips.map(getShownClip);
+    const job = startExportJob((signal, onActivity, setBusy) => exportAllClips({
+      ...settings,
+      clips: shownClips,
+      rendered: batchResultsRef.current,
+      signal,
+      onBusy: setBusy,
+      canExport: onExportCheck,
+      onExported: onExportSuccess,
+      onUpdate: items => {
+        onActivity();
+        setBatchItems(items);
+      }
+    }));
+    batchJobRef.current = job;
 
-    renderFrame();
+    try {
+      await job.result;
+      if (shownClips.every(clip => batchResultsRef.current.has(getRenderKey(clip, settings)))) await downloadBatch(settings);
+    } catch (err) {
+      // Per-clip failures are shown in the queue
+      if (!isExportCancelled(err)) console.error("Batch export stopped", err);
+    } finally {
+      batchJobRef.current = null;
+      setIsBatchExporting(false);
+    }
   };
 
   const handleNativeShare = async () => {
     if (!lastExportedBlob) return;
     
-    const file = new File([lastExportedBlob], `clipgenius_short.webm`, { type: 'video/webm' });
+    const extension = lastExportedBlob.type === 'video/mp4' ? 'mp4' : 'webm';
+    const file = new File([lastExportedBlob], `clipgenius_short.${extension}`, { type: lastExportedBlob.type });
 
     if (navigator.canShare && navigator.canShare({ files: [file] })) {
         try {
@@ -428,8 +447,32 @@ const Editor: React.FC<EditorProps> = ({ videoUrl, clips, onReset, onExportCheck
       )}
 
       {/* Export Overlay */}
-      {isExporting && (
+      {(isExporting || exportError) && (
         <div className="fixed inset-0 z-50 bg-black/90 flex flex-col items-center justify-center p-8 backdrop-blur-sm">
+           {exportError ? (
+             <div className="w-full max-w-md space-y-6 text-center">
+               <div className="w-16 h-16 mx-auto rounded-full bg-red-500/10 flex items-center justify-center text-red-400">
+                  <AlertTriangle size={32} />
+               </div>
+               <h3 className="text-2xl font-bold text-white">Export Failed</h3>
+               <p className="text-gray-400">{exportError}</p>
+               <p className="text-xs text-gray-500">Nothing was charged to your export allowance.</p>
+               <div className="flex justify-center gap-3">
+                 <button
+                   onClick={() => setExportError(null)}
+                   className="px-4 py-2 text-sm text-gray-400 hover:text-white transition"
+                 >
+                   Close
+                 </button>
+                 <button
+                   onClick={handleExport}
+                   className="px-6 py-2 bg-white text-dark-900 font-bold rounded-lg hover:bg-gray-200 transition"
+                 >
+                   Try Again
+                 </button>
+               </div>
+             </div>
+           ) : (
            <div className="w-full max-w-md space-y-6 text-center">
              <div className="relative w-24 h-24 mx-auto">
                 <svg className="w-full h-full" viewBox="0 0 100 100">
@@ -453,14 +496,34 @@ const Editor: React.FC<EditorProps> = ({ videoUrl, clips, onReset, onExportCheck
              </div>
              <h3 className="text-2xl font-bold text-white">Rendering Short...</h3>
              <p className="text-gray-400">Please wait while we bake your video with captions.</p>
-             <div className="flex items-center justify-center gap-2 text-yellow-400 text-sm bg-yellow-400/10 p-3 rounded-lg border border-yellow-400/20">
-                <AlertCircle size={16} />
-                <span>Audio is playing for synchronization.</span>
-             </div>
+             {!isWebCodecsSupported() && (
+               <div className="flex items-center justify-center gap-2 text-yellow-400 text-sm bg-yellow-400/10 p-3 rounded-lg border border-yellow-400/20">
+                  <AlertCircle size={16} />
+                  <span>Audio is playing for synchronization.</span>
+               </div>
+             )}
+             <button
+               onClick={() => exportJobRef.current?.cancel()}
+               className="px-4 py-2 border border-dark-600 rounded-lg text-sm text-gray-300 hover:text-white hover:bg-dark-700 transition"
+             >
+               Cancel
+             </button>
            </div>
+           )}
         </div>
       )}
 
+      {batchItems && (
+        <ExportQueue
+          items={batchItems}
+          isRunning={isBatchExporting}
+          onCancel={() => batchJobRef.current?.cancel()}
+          onResume={() => handleExportAll(true)}
+          onDownload={() => downloadBatch()}
+          onClose={() => setBatchItems(null)}
+        />
+      )}
+
       {/* Header */}
       <header className="flex items-center justify-between p-4 border-b border-dark-700 bg-dark-800">
         <div className="flex items-center gap-2">
@@ -472,7 +535,7 @@ const Editor: React.FC<EditorProps> = ({ videoUrl, clips, onReset, onExportCheck
         <div className="flex gap-3">
             <button 
                 onClick={onReset}
-                disabled={isExporting}
+                disabled={isExporting || isBatchExporting}
                 className="px-4 py-2 text-sm text-gray-400 hover:text-white transition disabled:opacity-50"
             >
                 Start Over
@@ -485,9 +548,17 @@ const Editor: React.FC<EditorProps> = ({ videoUrl, clips, onReset, onExportCheck
                 <Share2 size={18} />
                 Share
             </button>
+            <button
+                onClick={() => handleExportAll()}
+                disabled={isExporting || isBatchExporting || clips.length === 0}
+                className="flex items-center gap-2 px-4 py-2 border border-dark-600 bg-dark-700 text-white font-medium rounded-lg hover:bg-dark-600 transition disabled:opacity-50"
+            >
+                <Package size={18} />
+                Export All
+            </button>
             <button 
                 onClick={handleExport}
-                disabled={isExporting}
+                disabled={isExporting || isBatchExporting}
                 className="flex items-center gap-2 px-6 py-2 bg-white text-dark-900 font-bold rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
             >
                 <Download size={18} />
@@ -523,12 +594,17 @@ const Editor: React.FC<EditorProps> = ({ videoUrl, clips, onReset, onExportCheck
                 <div className="flex justify-between items-start mb-2">
                   <span className={`
                     text-xs font-bold px-2 py-0.5 rounded
-                    ${clip.viralScore > 90 ? 'bg-green-500/20 text-green-400' : 'bg-yellow-500/20 text-yellow-400'}
+                    ${clip.manual ? 'bg-dark-600 text-gray-300' : clip.viralScore > 90 ? 'bg-green-500/20 text-green-400' : 'bg-yellow-500/20 text-yellow-400'}
                   `}>
-                    Score: {clip.viralScore}
+                    {clip.manual ? 'Manual' : `Score: ${clip.viralScore}`}
                   </span>
-                  <span className="text-xs text-gray-500 font-mono">
-                    {Math.round(clip.endTime - clip.startTime)}s
+                  <span className="flex items-center gap-2 text-xs text-gray-500 font-mono">
+                    {clip.warnings && clip.warnings.length > 0 && (
+                      <span title={clip.warnings.join('\n')} className="flex items-center gap-1 text-yellow-400">
+                        <AlertTriangle size={12} /> {clip.warnings.length}
+                      </span>
+                    )}
+                    {Math.round(getClipDuration(getEditedClip(clip)))}s
                   </span>
                 </div>
                 <h3 className="font-semibold text-white mb-1 line-clamp-1">{clip.title}</h3>
@@ -539,18 +615,110 @@ const Editor: React.FC<EditorProps> = ({ videoUrl, clips, onReset, onExportCheck
         </aside>
 
         {/* Center: Preview */}
-        <main className="flex-1 bg-dark-900 p-8 flex items-center justify-center relative">
-          <div className="absolute top-4 text-center">
+        <main className="flex-1 bg-dark-900 p-8 flex flex-col items-center gap-6 overflow-y-auto relative">
+          <div className="text-center">
             <p className="text-sm text-gray-500 mb-1">Previewing: <span className="text-white font-medium">{currentClip?.title}</span></p>
           </div>
-          <Player 
-            videoUrl={videoUrl}
-            clip={currentClip}
-            template={currentTemplate}
-            customStyle={customStyle}
-            isPlaying={isPlaying}
-            onPlayPause={() => setIsPlaying(!isPlaying)}
-          />
+          <div className="w-full max-w-5xl flex flex-col lg:flex-row gap-6 items-stretch">
+            <div className="flex-1 min-w-0">
+              <Player 
+                ref={playerRef}
+                videoUrl={videoUrl}
+                clip={editedClip}
+                template={currentTemplate}
+                customStyle={customStyle}
+                output={output}
+                music={music}
+                speakers={speakers}
+                isPlaying={isPlaying}
+                onPlayPause={() => setIsPlaying(!isPlaying)}
+                onTimeUpdate={setPlayheadTime}
+                onDurationChange={setSourceDuration}
+              />
+            </div>
+            {/* Transcript document: search it, select text to make a clip */}
+            <div className="w-full lg:w-80 h-96 lg:h-auto lg:max-h-[70vh] shrink-0">
+              <TranscriptPanel
+                videoFile={videoFile}
+                transcript={transcript}
+                speakers={speakers}
+                currentTime={playheadTime}
+                onTranscriptChange={onTranscriptChange}
+                onSeek={seekSource}
+                onCreateClip={handleAddClip}
+              />
+            </div>
+          </div>
+
+          <div className="w-full max-w-3xl">
+            <SourceTimeline
+              videoUrl={videoUrl}
+              clips={clips}
+              selectedClipId={selectedClipId}
+              sourceDuration={sourceDuration}
+              currentTime={playheadTime}
+              onSeek={seekSource}
+              onSelectClip={setSelectedClipId}
+              onCreateClip={handleCreateClip}
+              creatingClip={creatingClip}
+              onCancelCreateClip={() => createClipRef.current?.abort()}
+            />
+          </div>
+
+          {currentClip && (
+            <div className="w-full max-w-3xl space-y-4">
+              {currentClip.warnings && currentClip.warnings.length > 0 && (
+                <div className="p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-xl text-yellow-200 text-sm">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="flex items-center gap-2 font-semibold">
+                      <AlertTriangle size={16} /> AI output was repaired for this clip
+                    </span>
+                    <button
+                      onClick={() => onClipChange({ ...currentClip, warnings: [] })}
+                      className="text-xs text-yellow-300/70 hover:text-yellow-100 transition"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                  <ul className="list-disc list-inside text-xs text-yellow-200/80 space-y-0.5">
+                    {currentClip.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                  </ul>
+                </div>
+              )}
+              {isSupercut(currentClip) ? (
+                <SegmentStrip clip={currentClip} currentTime={clipTime} onSeek={seekClip} />
+              ) : (
+                <TrimBar
+                  videoUrl={videoUrl}
+                  clip={currentClip}
+                  sourceDuration={sourceDuration}
+                  currentTime={playheadTime}
+                  onTrim={handleTrim}
+                  onSeek={(time) => playerRef.current?.seek(time)}
+                />
+              )}
+              <JumpCutPanel
+                key={currentClip.id}
+                videoUrl={videoUrl}
+                clip={currentClip}
+                onChange={(jumpCut) => onClipUpdate(currentClip.id, latest => ({ ...latest, jumpCut }))}
+              />
+              <ReframePanel
+                videoUrl={videoUrl}
+                clip={currentClip}
+                currentTime={clipTime}
+                onChange={(cropPath) => onClipUpdate(currentClip.id, latest => ({ ...latest, cropPath }))}
+                onSeek={seekClip}
+              />
+              <CaptionEditor
+                videoUrl={videoUrl}
+                clip={withCaptionTrack(currentClip, captionLanguage)}
+                currentTime={clipTime}
+                onChange={handleCaptionsChange}
+                onSeek={seekClip}
+              />
+            </div>
+          )}
         </main>
 
         {/* Right Sidebar: Customization */}
@@ -572,19 +740,8 @@ const Editor: React.FC<EditorProps> = ({ videoUrl, clips, onReset, onExportCheck
                     <div className="absolute inset-0 bg-gradient-to-tr from-brand-900/20 to-blue-900/20"></div>
                     <div className="absolute inset-0" style={{ backgroundImage: 'radial-gradient(circle at 2px 2px, rgba(255,255,255,0.05) 1px, transparent 0)', backgroundSize: '16px 16px' }}></div>
                     
-                    {/* Render the styled text using currentTemplate classes + inline overrides */}
-                    <div className="relative z-10 p-4 text-center">
-                      <span 
-                        className={currentTemplate.textClass}
-                        style={{
-                            color: customStyle.textColor,
-                            backgroundColor: hexToRgba(customStyle.backgroundColor, customStyle.bgOpacity),
-                            fontWeight: customStyle.fontWeight
-                        }}
-                      >
-                        Viral Caption
-                      </span>
-                    </div>
+                    {/* Render the sample text with the same caption renderer as the player and export */}
+                    <CaptionPreview template={currentTemplate} customStyle={customStyle} className="absolute inset-0 z-10" />
                 </div>
             </div>
 
@@ -603,7 +760,10 @@ const Editor: React.FC<EditorProps> = ({ videoUrl, clips, onReset, onExportCheck
                   >
                     <div className={`absolute inset-0 ${tpl.previewColor} opacity-20`}></div>
                     <div className="absolute inset-0 flex items-center justify-center p-2">
-                      <span className={`text-sm ${tpl.fontClass} text-white truncate max-w-full px-1`}>
+                      <span
+                        className="text-sm text-white truncate max-w-full px-1"
+                        style={{ fontFamily: tpl.style.fontFamily, fontWeight: tpl.style.fontWeight, fontStyle: tpl.style.italic ? 'italic' : 'normal' }}
+                      >
                         Abc
                       </span>
                     </div>
@@ -615,6 +775,12 @@ const Editor: React.FC<EditorProps> = ({ videoUrl, clips, onReset, onExportCheck
               </div>
             </div>
 
+            <PresetPanel
+                templateId={selectedTemplateId}
+                customStyle={customStyle}
+                onApply={(templateId, style) => onSettingsChange({ ...settings, templateId, customStyle: style })}
+            />
+
             {/* Fine-Tuning Controls */}
             <div className="bg-dark-700/30 rounded-xl p-4 border border-dark-600 space-y-4">
                 <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Fine Tuning</h3>
@@ -681,19 +847,390 @@ const Editor: React.FC<EditorProps> = ({ videoUrl, clips, onReset, onExportCheck
                         />
                     </div>
                 </div>
+
+                {/* Row 3: Font & Size */}
+                <div className="space-y-3 pt-2 border-t border-dark-600/50">
+                    <div className="space-y-1">
+                        <label className="text-xs text-gray-400 flex items-center gap-1">
+                            <Type size={12} /> Font
+                        </label>
+                        <div className="flex gap-2">
+                            <select
+                                value={customStyle.fontFamily || ''}
+                                onChange={(e) => setCustomStyle({...customStyle, fontFamily: e.target.value || undefined})}
+                                className="flex-1 min-w-0 bg-dark-900 border border-dark-600 rounded px-2 py-1.5 text-xs text-white outline-none focus:border-brand-500"
+                            >
+                                <option value="">Template default</option>
+                                {CAPTION_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                                {uploadedFonts.map(font => <option key={font.family} value={font.family}>{font.family} (uploaded)</option>)}
+                            </select>
+                            <button
+                                onClick={() => fontInputRef.current?.click()}
+                                title="Upload a TTF / OTF / WOFF font"
+                                className="px-2 bg-dark-900 border border-dark-600 rounded text-gray-400 hover:text-white hover:border-brand-500 transition"
+                            >
+                                <Upload size={12} />
+                            </button>
+                            <input
+                                ref={fontInputRef}
+                                type="file"
+                                accept=".ttf,.otf,.woff,.woff2"
+                                className="hidden"
+                                onChange={handleFontUpload}
+                            />
+                        </div>
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex justify-between text-xs text-gray-500">
+                            <span>Size</span>
+                            <span>{captionStyle.fontSize}px</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="24"
+                            max="140"
+                            value={captionStyle.fontSize}
+                            onChange={(e) => setCustomStyle({...customStyle, fontSize: parseInt(e.target.value)})}
+                            className="w-full h-1 bg-dark-600 rounded-lg appearance-none cursor-pointer accent-brand-500"
+                        />
+                    </div>
+                </div>
+
+                {/* Row 4: Outline */}
+                <div className="space-y-3 pt-2 border-t border-dark-600/50">
+                    <div className="flex justify-between items-center">
+                        <label className="text-xs text-gray-400">Outline</label>
+                        <input
+                                type="color"
+                                value={captionStyle.stroke?.color || customStyle.outlineColor || '#000000'}
+                                onChange={(e) => setCustomStyle({...customStyle, outlineColor: e.target.value, outlineWidth: captionStyle.stroke?.width || 4})}
+                                className="w-5 h-5 rounded cursor-pointer bg-transparent border-none p-0"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <div className="flex justify-between text-xs text-gray-500">
+                            <span>Width</span>
+                            <span>{captionStyle.stroke?.width || 0}px</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0"
+                            max="16"
+                            value={captionStyle.stroke?.width || 0}
+                            onChange={(e) => setCustomStyle({...customStyle, outlineWidth: parseInt(e.target.value)})}
+                            className="w-full h-1 bg-dark-600 rounded-lg appearance-none cursor-pointer accent-brand-500"
+                        />
+                    </div>
+                </div>
+
+                {/* Row 5: Position & Highlight */}
+                <div className="space-y-3 pt-2 border-t border-dark-600/50">
+                    <div className="space-y-1">
+                        <div className="flex justify-between text-xs text-gray-500">
+                            <span>Vertical Position</span>
+                            <span>{Math.round(captionStyle.position.y * 100)}%</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="5"
+                            max="95"
+                            value={Math.round(captionStyle.position.y * 100)}
+                            onChange={(e) => setCustomStyle({...customStyle, positionY: parseInt(e.target.value) / 100})}
+                            className="w-full h-1 bg-dark-600 rounded-lg appearance-none cursor-pointer accent-brand-500"
+                        />
+                    </div>
+                    <div className="flex justify-between items-center">
+                        <label className="text-xs text-gray-400">Highlight Color</label>
+                        <input
+                                type="color"
+                                value={captionStyle.highlightColor}
+                                onChange={(e) => setCustomStyle({...customStyle, highlightColor: e.target.value})}
+                                className="w-5 h-5 rounded cursor-pointer bg-transparent border-none p-0"
+                        />
+                    </div>
+                </div>
+
+                {/* Row 6: Motion */}
+                <div className="grid grid-cols-2 gap-4 pt-2 border-t border-dark-600/50">
+                    <div className="space-y-1">
+                        <label className="text-xs text-gray-400">Entrance</label>
+                        <select
+                            value={captionStyle.animation}
+                            onChange={(e) => setCustomStyle({...customStyle, animation: e.target.value as CaptionAnimation})}
+                            className="w-full bg-dark-900 border border-dark-600 rounded px-2 py-1.5 text-xs text-white outline-none focus:border-brand-500"
+                        >
+                            {(Object.keys(CAPTION_ANIMATIONS) as CaptionAnimation[]).map(animation => (
+                                <option key={animation} value={animation}>{CAPTION_ANIMATIONS[animation]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-xs text-gray-400">Emphasis</label>
+                        <select
+                            value={captionStyle.emphasis}
+                            onChange={(e) => setCustomStyle({...customStyle, emphasis: e.target.value as EmphasisAnimation})}
+                            title="Motion for the words the AI marked as key words"
+                            className="w-full bg-dark-900 border border-dark-600 rounded px-2 py-1.5 text-xs text-white outline-none focus:border-brand-500"
+                        >
+                            {(Object.keys(EMPHASIS_ANIMATIONS) as EmphasisAnimation[]).map(effect => (
+                                <option key={effect} value={effect}>{EMPHASIS_ANIMATIONS[effect]}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
             </div>
 
-            <div className="p-4 bg-dark-700/50 rounded-xl border border-dark-600">
-                <h3 className="text-sm font-medium text-white mb-2">Caption Timeline</h3>
-                <div className="space-y-2">
-                    {currentClip?.captions.slice(0, 3).map((cap, i) => (
-                        <div key={i} className="flex justify-between text-xs text-gray-400 italic border-l-2 border-dark-500 pl-2">
-                            <span>"{cap.text}"</span>
-                            <span className="text-gray-600 font-mono">{cap.start}s</span>
+            {/* Output Format */}
+            <div className="bg-dark-700/30 rounded-xl p-4 border border-dark-600 space-y-3">
+                <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                    <Monitor size={12} /> Output Format
+                </h3>
+                <div className="grid grid-cols-2 gap-2">
+                    {(Object.keys(ASPECT_RATIOS) as AspectRatio[]).map(ratio => (
+                        <button
+                            key={ratio}
+                            onClick={() => setOutput({ aspectRatio: ratio })}
+                            className={`py-2 rounded-lg border text-left px-3 transition ${output.aspectRatio === ratio ? 'border-brand-500 bg-brand-500/10 text-white' : 'border-dark-600 bg-dark-900 text-gray-400 hover:text-white'}`}
+                        >
+                            <span className="block text-xs font-bold">{ratio}</span>
+                            <span className="block text-[10px] text-gray-500">{ASPECT_RATIOS[ratio].label}</span>
+                        </button>
+                    ))}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                        <label className="text-xs text-gray-400">Resolution</label>
+                        <select
+                            value={output.resolution}
+                            onChange={(e) => setOutput({ resolution: e.target.value as OutputResolution })}
+                            className="w-full bg-dark-900 border border-dark-600 rounded px-2 py-1.5 text-xs text-white outline-none focus:border-brand-500"
+                        >
+                            {(Object.keys(RESOLUTIONS) as OutputResolution[]).map(res => (
+                                <option key={res} value={res}>{RESOLUTIONS[res].label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-xs text-gray-400">Fit</label>
+                        <select
+                            value={output.fitMode}
+                            onChange={(e) => setOutput({ fitMode: e.target.value as FitMode })}
+                            className="w-full bg-dark-900 border border-dark-600 rounded px-2 py-1.5 text-xs text-white outline-none focus:border-brand-500"
+                        >
+                            {(Object.keys(FIT_MODES) as FitMode[]).map(mode => (
+                                <option key={mode} value={mode}>{FIT_MODES[mode]}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+                <p className="text-[10px] text-gray-500 font-mono">
+                    {getOutputSize(output).width} × {getOutputSize(output).height}
+                </p>
+            </div>
+
+            {/* Background Music */}
+            <div className="bg-dark-700/30 rounded-xl p-4 border border-dark-600 space-y-3">
+                <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                    <Music size={12} /> Background Music
+                </h3>
+                {settings.music ? (
+                    <>
+                        <div className="flex items-center justify-between gap-2 bg-dark-900 border border-dark-600 rounded-lg px-3 py-2">
+                            <span className="text-xs text-gray-300 truncate" title={settings.music.fileName}>{settings.music.fileName}</span>
+                            <button
+                                onClick={() => onMusicChange(null)}
+                                title="Remove music"
+                                className="text-gray-500 hover:text-red-400 transition"
+                            >
+                                <X size={12} />
+                            </button>
+                        </div>
+                        {([
+                            ['volume', 'Volume', 0, 100, 1, '%'],
+                            ['ducking', 'Duck under speech', 0, 100, 1, '%'],
+                            ['fadeIn', 'Fade in', 0, 5, 0.5, 's'],
+                            ['fadeOut', 'Fade out', 0, 5, 0.5, 's']
+                        ] as [keyof Omit<MusicSettings, 'fileName'>, string, number, number, number, string][]).map(([key, label, min, max, step, unit]) => (
+                            <div key={key} className="space-y-1">
+                                <div className="flex justify-between text-xs text-gray-500">
+                                    <span>{label}</span>
+                                    <span>{settings.music![key]}{unit}</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min={min}
+                                    max={max}
+                                    step={step}
+                                    value={settings.music![key]}
+                                    onChange={(e) => setMusicSettings({ [key]: parseFloat(e.target.value) })}
+                                    className="w-full h-1 bg-dark-600 rounded-lg appearance-none cursor-pointer accent-brand-500"
+                                />
+                            </div>
+                        ))}
+                    </>
+                ) : (
+                    <button
+                        onClick={() => musicInputRef.current?.click()}
+                        className="w-full flex items-center justify-center gap-2 py-2 border border-dashed border-dark-600 rounded-lg text-xs text-gray-400 hover:text-white hover:border-brand-500 transition"
+                    >
+                        <Upload size={12} /> Add music track
+                    </button>
+                )}
+                <input
+                    ref={musicInputRef}
+                    type="file"
+                    accept="audio/*"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onMusicChange(file);
+                        e.target.value = '';
+                    }}
+                />
+                <p className="text-[10px] text-gray-500">
+                    Plays under every clip and dips automatically while someone is talking.
+                </p>
+            </div>
+
+            {/* Speakers found by diarization */}
+            {speakerLabels.length > 0 && (
+                <div className="bg-dark-700/30 rounded-xl p-4 border border-dark-600 space-y-3">
+                    <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                        <Users size={12} /> Speakers
+                    </h3>
+                    {speakerLabels.map(label => (
+                        <div key={label} className="flex items-center gap-2">
+                            <input
+                                type="color"
+                                value={getSpeakerColor(label, speakers)}
+                                onChange={(e) => setSpeakers(updateSpeaker(speakers, label, { color: e.target.value }))}
+                                title={`Colour for ${label}`}
+                                className="w-6 h-6 shrink-0 rounded cursor-pointer bg-transparent border-0"
+                            />
+                            <input
+                                value={speakers.styles[label]?.name ?? label}
+                                onChange={(e) => setSpeakers(updateSpeaker(speakers, label, { name: e.target.value }))}
+                                placeholder={label}
+                                className="flex-1 min-w-0 bg-dark-900 border border-dark-600 rounded px-2 py-1 text-xs text-white outline-none focus:border-brand-500"
+                            />
                         </div>
                     ))}
-                    <div className="text-xs text-gray-600 pl-2">...</div>
+                    <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={speakers.colorCaptions}
+                            onChange={(e) => setSpeakers({ ...speakers, colorCaptions: e.target.checked })}
+                            className="accent-brand-500"
+                        />
+                        Colour captions by speaker
+                    </label>
+                    <p className="text-[10px] text-gray-500">
+                        Names are used as voice tags in exported subtitle files.
+                    </p>
+                </div>
+            )}
+
+            {/* Caption Language */}
+            <div className="bg-dark-700/30 rounded-xl p-4 border border-dark-600 space-y-3">
+                <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                    <Languages size={12} /> Caption Language
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                    {[undefined, ...trackLanguages].map(language => (
+                        <button
+                            key={language || 'original'}
+                            onClick={() => setCaptionLanguage(language)}
+                            className={`px-2 py-1 rounded-md text-xs transition ${
+                                captionLanguage === language ? 'bg-brand-600 text-white' : 'bg-dark-900 border border-dark-600 text-gray-400 hover:text-white'
+                            }`}
+                        >
+                            {language ? CAPTION_LANGUAGES[language] : 'Original'}
+                        </button>
+                    ))}
+                </div>
+                {currentClip && captionLanguage && (
+                    currentClip.captionTracks?.[captionLanguage] ? (
+                        <button
+                            onClick={() => onClipChange(removeCaptionTrack(currentClip, captionLanguage))}
+                            className="text-[10px] text-gray-500 hover:text-red-400 transition"
+                        >
+                            Remove the {CAPTION_LANGUAGES[captionLanguage]} track from this clip
+                        </button>
+                    ) : (
+                        <p className="text-[10px] text-yellow-400/80">
+                            This clip has no {CAPTION_LANGUAGES[captionLanguage]} track yet, so it shows its original captions.
+                        </p>
+                    )
+                )}
+                <div className="flex items-center gap-2">
+                    <select
+                        value={translateTarget}
+                        onChange={(e) => setTranslateTarget(e.target.value)}
+                        disabled={translatingClipId !== null}
+                        className="flex-1 min-w-0 bg-dark-900 border border-dark-600 rounded px-2 py-1.5 text-xs text-white outline-none focus:border-brand-500"
+                    >
+                        {Object.entries(CAPTION_LANGUAGES).map(([code, name]) => (
+                            <option key={code} value={code}>{name}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => currentClip && handleTranslate([currentClip])}
+                        disabled={!currentClip || translatingClipId !== null}
+                        className="text-xs px-2 py-1.5 rounded-md bg-brand-600 hover:bg-brand-500 text-white transition disabled:opacity-50"
+                    >
+                        This clip
+                    </button>
+                    <button
+                        onClick={() => handleTranslate(clips)}
+                        disabled={clips.length === 0 || translatingClipId !== null}
+                        className="text-xs px-2 py-1.5 rounded-md bg-dark-700 hover:bg-dark-600 text-gray-300 hover:text-white transition disabled:opacity-50"
+                    >
+                        All clips
+                    </button>
+                </div>
+                {translatingClipId !== null && (
+                    <p className="text-xs text-gray-400 flex items-center gap-2">
+                        <Loader2 size={12} className="animate-spin" />
+                        Translating {clips.find(c => c.id === translatingClipId)?.title}...
+                    </p>
+                )}
+                <p className="text-[10px] text-gray-500">
+                    Translations keep the original timings and are split into more captions where they run longer.
+                    The chosen language is previewed, burned in and used for subtitle files.
+                </p>
+            </div>
+
+            {/* Subtitle Files */}
+            <div className="bg-dark-700/30 rounded-xl p-4 border border-dark-600 space-y-3">
+                <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                    <Subtitles size={12} /> Subtitle Files
+                </h3>
+                <div className="grid grid-cols-3 gap-2">
+                    {(['srt', 'vtt', 'ass'] as SubtitleFormat[]).map(format => (
+                        <button
+                            key={format}
+                            onClick={() => handleSubtitleExport(format)}
+                            disabled={!currentClip}
+                            className="py-2 bg-dark-900 border border-dark-600 rounded-lg text-xs font-mono uppercase text-gray-300 hover:text-white hover:border-brand-500 transition disabled:opacity-50"
+                        >
+                            .{format}
+                        </button>
+                    ))}
                 </div>
+                <button
+                    onClick={() => subtitleInputRef.current?.click()}
+                    disabled={!currentClip}
+                    className="w-full flex items-center justify-center gap-2 py-2 border border-dashed border-dark-600 rounded-lg text-xs text-gray-400 hover:text-white hover:border-brand-500 transition disabled:opacity-50"
+                >
+                    <Upload size={12} /> Import SRT / VTT
+                </button>
+                <input
+                    ref={subtitleInputRef}
+                    type="file"
+                    accept=".srt,.vtt,text/vtt,application/x-subrip"
+                    className="hidden"
+                    onChange={handleSubtitleImport}
+                />
             </div>
 
             <div>
@@ -0,0 +1,103 @@
+import React from 'react';
+import { BatchItem, BatchItemStatus } from '../services/exportService';
+import { Loader2, CheckCircle2, XCircle, Clock, Ban, X, Package, Download, RotateCcw, CircleSlash } from 'lucide-react';
+
+interface ExportQueueProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  onCancel: () => void;
+  onResume: () => void;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+const STATUS_ICONS: Record<BatchItemStatus, React.ReactNode> = {
+  queued: <Clock size={14} className="text-gray-500" />,
+  rendering: <Loader2 size={14} className="text-brand-400 animate-spin" />,
+  done: <CheckCircle2 size={14} className="text-green-400" />,
+  failed: <XCircle size={14} className="text-red-400" />,
+  skipped: <Ban size={14} className="text-yellow-400" />,
+  cancelled: <CircleSlash size={14} className="text-gray-500" />
+};
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  rendering: 'Rendering',
+  done: 'Done',
+  failed: 'Failed',
+  skipped: 'Export limit reached',
+  cancelled: 'Cancelled'
+};
+
+// Floating progress card for "Export all"; the editor stays usable while it runs
+const ExportQueue: React.FC<ExportQueueProps> = ({ items, isRunning, onCancel, onResume, onDownload, onClose }) => {
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const canResume = !isRunning && doneCount < items.length;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 w-80 bg-dark-800 border border-dark-600 rounded-xl shadow-2xl animate-fade-in">
+      <div className="flex items-center justify-between p-3 border-b border-dark-700">
+        <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+          <Package size={14} className="text-brand-400" />
+          {isRunning ? 'Exporting all clips' : `Exported ${doneCount} of ${items.length}`}
+        </h3>
+        {!isRunning && (
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+      <div className="max-h-72 overflow-y-auto p-3 space-y-3">
+        {items.map(item => (
+          <div key={item.clipId} className="space-y-1">
+            <div className="flex items-center gap-2 text-xs">
+              {STATUS_ICONS[item.status]}
+              <span className="flex-1 truncate text-gray-200">{item.title}</span>
+              <span className="text-gray-500">
+                {item.status === 'rendering' ? `${Math.round(item.progress)}%` : STATUS_LABELS[item.status]}
+              </span>
+            </div>
+            {item.error && <p className="text-[10px] text-red-400 truncate" title={item.error}>{item.error}</p>}
+            <div className="h-1 bg-dark-700 rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all duration-200 ${item.status === 'failed' ? 'bg-red-500' : 'bg-brand-500'}`}
+                style={{ width: `${item.status === 'done' ? 100 : item.progress}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 p-3 border-t border-dark-700">
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            className="flex-1 py-1.5 border border-dark-600 rounded-lg text-xs text-gray-300 hover:text-white hover:bg-dark-700 transition"
+          >
+            Cancel
+          </button>
+        ) : (
+          <>
+            {canResume && (
+              <button
+                onClick={onResume}
+                className="flex-1 flex items-center justify-center gap-1 py-1.5 border border-dark-600 rounded-lg text-xs text-gray-300 hover:text-white hover:bg-dark-700 transition"
+              >
+                <RotateCcw size={12} /> Resume
+              </button>
+            )}
+            {doneCount > 0 && (
+              <button
+                onClick={onDownload}
+                className="flex-1 flex items-center justify-center gap-1 py-1.5 bg-white text-dark-900 font-semibold rounded-lg text-xs hover:bg-gray-200 transition"
+              >
+                <Download size={12} /> Download ZIP
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportQueue;
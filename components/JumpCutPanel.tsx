@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { JumpCutSettings, VideoClip } from '../types';
+import { DEFAULT_MIN_SILENCE, detectJumpCuts, getJumpCutSavings } from '../services/jumpCutService';
+import { getClipDuration } from '../services/segmentService';
+import { Zap, Loader2, X } from 'lucide-react';
+
+interface JumpCutPanelProps {
+  videoUrl: string;
+  clip: VideoClip; // Uncut clip
+  onChange: (jumpCut: JumpCutSettings | undefined) => void;
+}
+
+const JumpCutPanel: React.FC<JumpCutPanelProps> = ({ videoUrl, clip, onChange }) => {
+  const [removeFillers, setRemoveFillers] = useState(clip.jumpCut?.removeFillers ?? true);
+  const [minSilence, setMinSilence] = useState(clip.jumpCut?.minSilence ?? DEFAULT_MIN_SILENCE);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  const jumpCut = clip.jumpCut;
+  const duration = getClipDuration(clip);
+  const savings = getJumpCutSavings(clip);
+
+  const handleAnalyze = async () => {
+    setIsAnalyzing(true);
+    try {
+      const removed = await detectJumpCuts(videoUrl, clip, { removeFillers, minSilence });
+      onChange({ enabled: true, removeFillers, minSilence, removed });
+    } catch (err) {
+      console.error("Jump cut analysis failed", err);
+      alert("Could not analyze this clip for pauses and fillers.");
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  return (
+    <div className="bg-dark-800 rounded-xl border border-dark-700 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <Zap size={14} className="text-brand-400" />
+          Jump Cut
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={handleAnalyze}
+            disabled={isAnalyzing}
+            className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-brand-600 hover:bg-brand-500 text-white transition disabled:opacity-60"
+          >
+            {isAnalyzing ? <><Loader2 size={12} className="animate-spin" /> Analyzing...</> : <><Zap size={12} /> {jumpCut ? 'Re-analyze' : 'Remove pauses'}</>}
+          </button>
+          {jumpCut && (
+            <button
+              onClick={() => onChange(undefined)}
+              title="Remove the jump cut"
+              className="p-1 rounded-md text-gray-500 hover:text-white hover:bg-dark-600 transition"
+            >
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 items-end">
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>Cut pauses longer than</span>
+            <span>{minSilence.toFixed(1)}s</span>
+          </div>
+          <input
+            type="range"
+            min="0.3"
+            max="2"
+            step="0.1"
+            value={minSilence}
+            onChange={(e) => setMinSilence(parseFloat(e.target.value))}
+            className="w-full h-1 bg-dark-600 rounded-lg appearance-none cursor-pointer accent-brand-500"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={removeFillers}
+            onChange={(e) => setRemoveFillers(e.target.checked)}
+            className="accent-brand-500"
+          />
+          Remove fillers ("um", "uh")
+        </label>
+      </div>
+
+      {jumpCut && (
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-xs text-gray-400">
+            {jumpCut.removed.length} cuts · {duration.toFixed(1)}s → <span className="text-white">{(duration - savings).toFixed(1)}s</span>
+          </span>
+          {/* Before / after comparison */}
+          <div className="flex bg-dark-900 border border-dark-600 rounded-lg p-0.5">
+            {[false, true].map(enabled => (
+              <button
+                key={String(enabled)}
+                onClick={() => onChange({ ...jumpCut, enabled })}
+                className={`px-3 py-1 rounded-md text-xs transition ${jumpCut.enabled === enabled ? 'bg-brand-600 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {enabled ? 'After' : 'Before'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-[10px] text-gray-500">
+        Cuts follow the preview and the export. Trimming, captions and reframing are still edited on the uncut clip.
+      </p>
+    </div>
+  );
+};
+
+export default JumpCutPanel;
@@ -1,24 +1,93 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { VideoClip, Template, CustomCaptionStyle } from '../types';
+import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
+import { VideoClip, Template, CustomCaptionStyle, OutputSettings, SpeakerSettings } from '../types';
+import { ASPECT_RATIOS } from '../constants';
+import { drawCaptions, loadCaptionFont, resolveCaptionStyle } from '../services/captionRenderer';
+import { getCropCenter, getObjectPosition } from '../services/reframeService';
+import { drawBlurBackdrop } from '../services/renderService';
+import { decodeAudio } from '../services/mediaService';
+import { MusicSource, startMusic } from '../services/musicService';
+import { findSegmentIndex, getClipDuration, getClipSegments, isSupercut, toClipTime } from '../services/segmentService';
 import { Play, Pause, Volume2, VolumeX } from 'lucide-react';
 
+const MUSIC_DRIFT = 0.25; // seconds the music may be off from the video before it's restarted
+const BACKDROP_SIZE = 160; // short side (px) of the blur backdrop canvas; it's blurred, so it can be small
+
 interface PlayerProps {
   videoUrl: string;
   clip: VideoClip | null;
   template: Template;
   customStyle?: CustomCaptionStyle;
+  output: OutputSettings;
+  music?: MusicSource;
+  speakers?: SpeakerSettings;
   isPlaying: boolean;
   onPlayPause: () => void;
+  onTimeUpdate?: (time: number) => void; // Absolute time in the source video
+  onDurationChange?: (duration: number) => void; // Length of the full source video
+}
+
+export interface PlayerHandle {
+  seek: (time: number) => void; // Absolute time in the source video
 }
 
-const Player: React.FC<PlayerProps> = ({ videoUrl, clip, template, customStyle, isPlaying, onPlayPause }) => {
+const Player = forwardRef<PlayerHandle, PlayerProps>(({ videoUrl, clip, template, customStyle, output, music, speakers, isPlaying, onPlayPause, onTimeUpdate, onDurationChange }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const backdropRef = useRef<HTMLCanvasElement>(null);
+  const captionCanvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
+  const syncRef = useRef<() => void>(() => {});
+  const segmentRef = useRef(0); // Segment of a supercut being played
+  // Music bed: played through Web Audio with the same gain automation as the export
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const musicOutRef = useRef<GainNode | null>(null); // Master gain, for muting
+  const musicRef = useRef<{ source: AudioBufferSourceNode; startedAt: number; from: number } | null>(null);
   
   const [currentTime, setCurrentTime] = useState(0);
   const [isMuted, setIsMuted] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [currentCaption, setCurrentCaption] = useState<string>("");
+  const [musicBuffer, setMusicBuffer] = useState<AudioBuffer | null>(null);
+
+  // Decode the music file whenever it changes
+  useEffect(() => {
+    setMusicBuffer(null);
+    if (!music?.url) return;
+    let cancelled = false;
+    decodeAudio(music.url)
+      .then(buffer => { if (!cancelled) setMusicBuffer(buffer); })
+      .catch(err => console.error("Could not decode the background music", err));
+    return () => { cancelled = true; };
+  }, [music?.url]);
+
+  // Close the audio context with the player
+  useEffect(() => () => { audioCtxRef.current?.close(); }, []);
+
+  const stopMusic = () => {
+    musicRef.current?.source.stop();
+    musicRef.current = null;
+  };
+
+  // Keep the music bed playing in step with the clip, (re)starting it at `relativeTime`
+  // when it isn't running yet or has drifted (seek, loop, next segment)
+  const syncMusic = (relativeTime: number) => {
+    if (!music || !musicBuffer || !clip) return;
+    if (!audioCtxRef.current) {
+      const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+      const actx: AudioContext = new AudioContext();
+      const out = actx.createGain();
+      out.gain.value = isMuted ? 0 : 1;
+      out.connect(actx.destination);
+      audioCtxRef.current = actx;
+      musicOutRef.current = out;
+    }
+    const actx = audioCtxRef.current;
+    if (actx.state === 'suspended') actx.resume();
+
+    const playing = musicRef.current;
+    if (playing && Math.abs(playing.from + actx.currentTime - playing.startedAt - relativeTime) < MUSIC_DRIFT) return;
+    stopMusic();
+    const source = startMusic(actx, [musicOutRef.current!], { buffer: musicBuffer, settings: music.settings }, clip, relativeTime);
+    musicRef.current = { source, startedAt: actx.currentTime, from: relativeTime };
+  };
 
   // Handle Play/Pause commands
   useEffect(() => {
@@ -38,10 +107,11 @@ const Player: React.FC<PlayerProps> = ({ videoUrl, clip, template, customStyle,
     if (!video || !clip) return;
 
     // Initialize to start of clip
-    video.currentTime = clip.startTime;
-    setCurrentTime(clip.startTime);
+    const start = getClipSegments(clip)[0].startTime;
+    segmentRef.current = 0;
+    video.currentTime = start;
+    setCurrentTime(start);
     setProgress(0);
-    setCurrentCaption("");
     
     // Auto-play is handled by parent setting isPlaying=true, 
     // but if we switch clips while playing, the first effect handles the play() call.
@@ -53,55 +123,105 @@ const Player: React.FC<PlayerProps> = ({ videoUrl, clip, template, customStyle,
     if (!video || !clip) return;
 
     const animate = () => {
-      const now = video.currentTime;
+      let now = video.currentTime;
+      const segments = getClipSegments(clip);
+
+      // 1. Loop / segment logic: once a segment has played out, continue with the next one
+      // (or loop back to the first). Seeking elsewhere picks up whichever segment is there.
+      let index = findSegmentIndex(segments, now, segmentRef.current);
+      if (index === -1) {
+        const playing = segments[segmentRef.current] || segments[0];
+        index = segments.indexOf(playing);
+        if (now >= playing.endTime) {
+          index = (index + 1) % segments.length;
+          now = segments[index].startTime;
+          video.currentTime = now;
+          // Don't return, let the next lines render the new position immediately for smoothness
+        }
+      }
+      segmentRef.current = index;
       setCurrentTime(now);
 
-      // 1. Calculate Progress
-      const duration = clip.endTime - clip.startTime;
-      const elapsed = now - clip.startTime;
+      // 2. Calculate Progress
+      const duration = getClipDuration(clip);
+      const relativeTime = toClipTime(clip, now, index);
       // Clamp between 0 and 100
-      const progressPercent = Math.max(0, Math.min(100, (elapsed / duration) * 100));
+      const progressPercent = Math.max(0, Math.min(100, (relativeTime / duration) * 100));
       setProgress(progressPercent);
+      if (isPlaying) syncMusic(relativeTime);
+      else stopMusic();
 
-      // 2. Loop Logic
-      // Check if we passed the end time
-      if (now >= clip.endTime) {
-        video.currentTime = clip.startTime;
-        // Don't return, let the next lines render the start state immediately for smoothness
+      // 3. Precise Caption Sync: drawn by the same renderer as the export
+      const captionCanvas = captionCanvasRef.current;
+      const captionCtx = captionCanvas?.getContext('2d');
+      if (captionCanvas && captionCtx) {
+        const width = Math.round(captionCanvas.clientWidth * window.devicePixelRatio);
+        const height = Math.round(captionCanvas.clientHeight * window.devicePixelRatio);
+        if (captionCanvas.width !== width || captionCanvas.height !== height) {
+          captionCanvas.width = width;
+          captionCanvas.height = height;
+        }
+        captionCtx.clearRect(0, 0, width, height);
+        drawCaptions(captionCtx, clip, relativeTime, template, customStyle, speakers);
       }
 
-      // 3. Precise Caption Sync
-      const relativeTime = now - clip.startTime;
-      
-      // Find the caption where the current relative time falls strictly within start/end
-      const activeCaption = clip.captions.find(
-        c => relativeTime >= c.start && relativeTime <= c.end
-      );
-
-      if (activeCaption) {
-        setCurrentCaption(activeCaption.text);
+      // 4. Reframing: pan the cover crop along the clip's crop path
+      if (output.fitMode === 'crop' && video.videoWidth && video.clientWidth) {
+        const center = getCropCenter(clip.cropPath, relativeTime);
+        video.style.objectPosition = getObjectPosition(video.videoWidth, video.videoHeight, video.clientWidth, video.clientHeight, center);
       } else {
-        setCurrentCaption("");
+        video.style.objectPosition = '';
+      }
+
+      // 5. Blur fill: the same backdrop the export draws, at a low resolution
+      const backdropCtx = backdropRef.current?.getContext('2d');
+      if (output.fitMode === 'blur' && backdropCtx) {
+        drawBlurBackdrop(backdropCtx, video);
       }
 
+      onTimeUpdate?.(video.currentTime);
+
       // Schedule next frame if playing
       if (isPlaying) {
         requestRef.current = requestAnimationFrame(animate);
       }
     };
 
+    syncRef.current = animate;
+
     if (isPlaying) {
       requestRef.current = requestAnimationFrame(animate);
     } else {
       cancelAnimationFrame(requestRef.current);
+      // Render a single frame so caption edits show up while paused
+      animate();
     }
 
-    return () => cancelAnimationFrame(requestRef.current);
-  }, [isPlaying, clip]);
+    return () => {
+      cancelAnimationFrame(requestRef.current);
+      // Restarted by the next frame with the current clip and settings
+      stopMusic();
+    };
+  }, [isPlaying, clip, output, template, customStyle, music, musicBuffer, speakers]);
+
+  // Redraw once the caption font has loaded so the paused preview isn't left in a fallback font
+  useEffect(() => {
+    loadCaptionFont(resolveCaptionStyle(template, customStyle)).then(() => syncRef.current());
+  }, [template, customStyle?.fontWeight, customStyle?.fontFamily]);
+
+  useImperativeHandle(ref, () => ({
+    seek: (time: number) => {
+      const video = videoRef.current;
+      if (!video) return;
+      video.currentTime = time;
+      syncRef.current();
+    }
+  }), []);
 
   const toggleMute = () => {
     if (videoRef.current) {
       videoRef.current.muted = !isMuted;
+      if (musicOutRef.current) musicOutRef.current.gain.value = isMuted ? 1 : 0;
       setIsMuted(!isMuted);
     }
   };
@@ -112,46 +232,36 @@ const Player: React.FC<PlayerProps> = ({ videoUrl, clip, template, customStyle,
     return `${m}:${s.toString().padStart(2, '0')}`;
   };
 
-  // Construct inline styles for customization
-  const getCustomStyles = (): React.CSSProperties => {
-    if (!customStyle) return {};
-    
-    // Convert hex + opacity to rgba
-    const hex = customStyle.backgroundColor.replace('#', '');
-    const r = parseInt(hex.substring(0, 2), 16);
-    const g = parseInt(hex.substring(2, 4), 16);
-    const b = parseInt(hex.substring(4, 6), 16);
-    const rgba = `rgba(${r}, ${g}, ${b}, ${customStyle.bgOpacity / 100})`;
-
-    return {
-      color: customStyle.textColor,
-      backgroundColor: rgba,
-      fontWeight: customStyle.fontWeight,
-    };
-  };
+  const aspect = ASPECT_RATIOS[output.aspectRatio];
+  const backdropScale = BACKDROP_SIZE / Math.min(aspect.width, aspect.height);
 
   return (
-    <div className="relative group w-full max-w-[350px] mx-auto aspect-[9/16] bg-black rounded-3xl overflow-hidden shadow-2xl border-4 border-dark-700">
+    <div
+      className="relative group w-full mx-auto bg-black rounded-3xl overflow-hidden shadow-2xl border-4 border-dark-700"
+      style={{ aspectRatio: `${aspect.width} / ${aspect.height}`, maxWidth: aspect.previewMaxWidth }}
+    >
+      {/* Blurred backdrop for the blur-fill mode */}
+      {output.fitMode === 'blur' && (
+        <canvas
+          ref={backdropRef}
+          width={Math.round(aspect.width * backdropScale)}
+          height={Math.round(aspect.height * backdropScale)}
+          className="absolute inset-0 w-full h-full"
+        />
+      )}
+
       {/* Video Element */}
       <video
         ref={videoRef}
         src={videoUrl}
-        className="w-full h-full object-cover"
+        className={`relative w-full h-full ${output.fitMode === 'crop' ? 'object-cover' : 'object-contain'}`}
         playsInline
         onClick={onPlayPause}
+        onLoadedMetadata={(e) => onDurationChange?.(e.currentTarget.duration)}
       />
 
       {/* Captions Overlay */}
-      {currentCaption && (
-        <div className={`absolute pointer-events-none transition-all duration-75 ${template.containerClass}`}>
-          <div 
-            className={`${template.textClass}`}
-            style={getCustomStyles()} // Apply overrides
-          >
-            {currentCaption}
-          </div>
-        </div>
-      )}
+      <canvas ref={captionCanvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
 
       {/* Controls Overlay */}
       <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300">
@@ -169,7 +279,9 @@ const Player: React.FC<PlayerProps> = ({ videoUrl, clip, template, customStyle,
           </button>
           
           <span className="text-xs font-mono">
-             {formatTime(currentTime)} / {clip ? formatTime(clip.endTime) : "0:00"}
+             {clip && isSupercut(clip)
+               ? `${formatTime(Math.max(0, toClipTime(clip, currentTime, segmentRef.current)))} / ${formatTime(getClipDuration(clip))}`
+               : `${formatTime(currentTime)} / ${clip ? formatTime(clip.endTime) : "0:00"}`}
           </span>
 
           <button onClick={toggleMute} className="p-2 hover:bg-white/20 rounded-full transition">
@@ -191,6 +303,6 @@ const Player: React.FC<PlayerProps> = ({ videoUrl, clip, template, customStyle,
       )}
     </div>
   );
-};
+});
 
 export default Player;
\ No newline at end of file
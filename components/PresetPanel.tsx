@@ -0,0 +1,118 @@
+import React, { useRef, useState } from 'react';
+import { CaptionPreset, ClipStyle, CustomCaptionStyle } from '../types';
+import { TEMPLATES } from '../constants';
+import { presetService, createPresetId } from '../services/presetService';
+import { downloadBlob } from '../services/mediaService';
+import { Bookmark, Plus, Trash2, Download, Upload } from 'lucide-react';
+
+interface PresetPanelProps {
+  templateId: ClipStyle;
+  customStyle: CustomCaptionStyle;
+  onApply: (templateId: ClipStyle, style: CustomCaptionStyle) => void;
+}
+
+// Brand presets: save the current template + fine tuning under a name, share them as JSON
+const PresetPanel: React.FC<PresetPanelProps> = ({ templateId, customStyle, onApply }) => {
+  const [presets, setPresets] = useState<CaptionPreset[]>(() => presetService.listPresets());
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    const name = window.prompt("Preset name", "Brand captions")?.trim();
+    if (!name) return;
+    // Saving under an existing name updates that preset
+    const existing = presets.find(p => p.name === name);
+    try {
+      setPresets(presetService.savePreset({ id: existing?.id || createPresetId(), name, templateId, style: customStyle }));
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  const handleDelete = (preset: CaptionPreset) => {
+    if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    setPresets(presetService.deletePreset(preset.id));
+  };
+
+  const handleExport = async () => {
+    const json = await presetService.exportPresets(presets);
+    downloadBlob(new Blob([json], { type: 'application/json' }), 'ClipGenius_caption_presets.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-importing the same file
+    if (!file) return;
+
+    try {
+      setPresets(await presetService.importPresets(await file.text()));
+    } catch (err) {
+      console.error("Preset import failed", err);
+      alert((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-dark-700/30 rounded-xl p-4 border border-dark-600 space-y-3">
+      <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+        <Bookmark size={12} /> Brand Presets
+      </h3>
+
+      {presets.length === 0 ? (
+        <p className="text-xs text-gray-500">Save the current style to reuse it on every project.</p>
+      ) : (
+        <div className="space-y-1">
+          {presets.map(preset => (
+            <div key={preset.id} className="group flex items-center gap-2">
+              <button
+                onClick={() => onApply(preset.templateId, preset.style)}
+                className="flex-1 flex items-center gap-2 px-2 py-1.5 rounded-lg bg-dark-900 border border-dark-600 text-left hover:border-brand-500 transition"
+              >
+                <span className="w-3 h-3 rounded-full border border-dark-600" style={{ backgroundColor: preset.style.textColor }} />
+                <span className="flex-1 text-xs text-gray-200 truncate">{preset.name}</span>
+                <span className="text-[10px] text-gray-500">{TEMPLATES.find(t => t.id === preset.templateId)?.name}</span>
+              </button>
+              <button
+                onClick={() => handleDelete(preset)}
+                title="Delete preset"
+                className="p-1.5 rounded text-gray-500 hover:text-red-400 hover:bg-dark-700 transition"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={handleSave}
+        className="w-full flex items-center justify-center gap-2 py-2 bg-dark-900 border border-dark-600 rounded-lg text-xs text-gray-300 hover:text-white hover:border-brand-500 transition"
+      >
+        <Plus size={12} /> Save Current Style
+      </button>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={handleExport}
+          disabled={presets.length === 0}
+          className="flex items-center justify-center gap-1 py-2 border border-dashed border-dark-600 rounded-lg text-xs text-gray-400 hover:text-white hover:border-brand-500 transition disabled:opacity-50"
+        >
+          <Download size={12} /> Export JSON
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="flex items-center justify-center gap-1 py-2 border border-dashed border-dark-600 rounded-lg text-xs text-gray-400 hover:text-white hover:border-brand-500 transition"
+        >
+          <Upload size={12} /> Import JSON
+        </button>
+      </div>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={handleImport}
+      />
+    </div>
+  );
+};
+
+export default PresetPanel;
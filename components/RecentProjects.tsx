@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { Project } from '../types';
+import { projectService } from '../services/projectService';
+import { History, FolderOpen, Trash2, Film } from 'lucide-react';
+
+interface RecentProjectsProps {
+  onOpen: (projectId: string) => void;
+}
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+const RecentProjects: React.FC<RecentProjectsProps> = ({ onOpen }) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+
+  useEffect(() => {
+    projectService.listProjects()
+      .then(setProjects)
+      .catch(err => console.error("Failed to load projects", err));
+  }, []);
+
+  const handleDelete = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    if (!window.confirm("Delete this project? The saved video and edits will be removed.")) return;
+    try {
+      await projectService.deleteProject(id);
+      setProjects(prev => prev.filter(p => p.id !== id));
+    } catch (err) {
+      console.error("Failed to delete project", err);
+    }
+  };
+
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-2xl mx-auto px-6 pb-6">
+      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2 mb-3">
+        <History size={14} className="text-brand-400" />
+        Recent Projects
+      </h3>
+      <div className="space-y-2">
+        {projects.map(project => (
+          <div
+            key={project.id}
+            onClick={() => onOpen(project.id)}
+            className="group flex items-center gap-3 p-3 bg-dark-800 border border-dark-700 rounded-xl cursor-pointer hover:border-brand-500 transition"
+          >
+            <div className="p-2 rounded-lg bg-dark-700 text-gray-400 group-hover:text-brand-400 transition">
+              <Film size={18} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h4 className="text-sm font-semibold text-white truncate">{project.name}</h4>
+              <p className="text-xs text-gray-500">
+                {project.clips.length} clips · edited {formatDate(project.updatedAt)}
+              </p>
+            </div>
+            <FolderOpen size={16} className="text-gray-500 group-hover:text-white transition" />
+            <button
+              onClick={(e) => handleDelete(e, project.id)}
+              title="Delete project"
+              className="p-1.5 rounded text-gray-500 hover:text-red-400 hover:bg-dark-700 transition"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecentProjects;
@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CropKeyframe, VideoClip } from '../types';
+import { detectSubjectPath, getCropCenter, setKeyframe } from '../services/reframeService';
+import { getClipDuration } from '../services/segmentService';
+import { Crosshair, ScanFace, RotateCcw, X, Loader2 } from 'lucide-react';
+
+interface ReframePanelProps {
+  videoUrl: string;
+  clip: VideoClip;
+  currentTime: number; // Relative to clip start
+  onChange: (cropPath: CropKeyframe[]) => void;
+  onSeek: (relativeTime: number) => void;
+}
+
+const ReframePanel: React.FC<ReframePanelProps> = ({ videoUrl, clip, currentTime, onChange, onSeek }) => {
+  const [trackingProgress, setTrackingProgress] = useState<number | null>(null);
+  const trackingRef = useRef<AbortController | null>(null);
+
+  const duration = getClipDuration(clip);
+  const path = clip.cropPath || [];
+  const playhead = Math.max(0, Math.min(duration, currentTime));
+  const center = getCropCenter(path, playhead);
+
+  // Tracking belongs to the clip it started on: stop it when another clip is opened or the panel closes
+  useEffect(() => () => trackingRef.current?.abort(), [clip.id, videoUrl]);
+
+  const handleTrack = async () => {
+    const controller = new AbortController();
+    trackingRef.current = controller;
+    setTrackingProgress(0);
+    try {
+      const detected = await detectSubjectPath(videoUrl, clip, setTrackingProgress, controller.signal);
+      onChange(detected);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Speaker tracking failed", err);
+      alert("Could not track the speaker in this clip. You can still add keyframes manually.");
+    } finally {
+      if (trackingRef.current === controller) trackingRef.current = null;
+      setTrackingProgress(null);
+    }
+  };
+
+  const handlePositionChange = (axis: 'x' | 'y', value: number) => {
+    const time = Math.round(playhead * 1000) / 1000;
+    onChange(setKeyframe(path, { ...center, time, [axis]: value / 100 }));
+  };
+
+  return (
+    <div className="bg-dark-800 rounded-xl border border-dark-700 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <Crosshair size={14} className="text-brand-400" />
+          Reframe
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={handleTrack}
+            disabled={trackingProgress !== null}
+            className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-brand-600 hover:bg-brand-500 text-white transition disabled:opacity-60"
+          >
+            {trackingProgress !== null
+              ? <><Loader2 size={12} className="animate-spin" /> Tracking {Math.round(trackingProgress)}%</>
+              : <><ScanFace size={12} /> Track speaker</>}
+          </button>
+          <button
+            onClick={() => onChange([])}
+            disabled={path.length === 0}
+            title="Back to center crop"
+            className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-dark-700 hover:bg-dark-600 text-gray-300 hover:text-white transition disabled:opacity-40"
+          >
+            <RotateCcw size={12} /> Center
+          </button>
+        </div>
+      </div>
+
+      {/* Keyframe track */}
+      <div
+        className="relative h-6 bg-dark-900 rounded border border-dark-600 cursor-pointer"
+        onClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          onSeek(((e.clientX - rect.left) / rect.width) * duration);
+        }}
+      >
+        {path.map((k, i) => (
+          <button
+            key={i}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSeek(k.time);
+            }}
+            title={`${k.time.toFixed(2)}s`}
+            className="absolute top-1/2 w-2.5 h-2.5 -ml-[5px] -mt-[5px] rotate-45 bg-brand-400 hover:bg-white"
+            style={{ left: `${(k.time / duration) * 100}%` }}
+          />
+        ))}
+        <div className="absolute top-0 bottom-0 w-px bg-yellow-400 pointer-events-none" style={{ left: `${(playhead / duration) * 100}%` }} />
+      </div>
+
+      {/* Manual position at the playhead */}
+      <div className="grid grid-cols-2 gap-4">
+        {(['x', 'y'] as const).map(axis => (
+          <div key={axis} className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>{axis === 'x' ? 'Horizontal' : 'Vertical'}</span>
+              <span>{Math.round(center[axis] * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={Math.round(center[axis] * 100)}
+              onChange={(e) => handlePositionChange(axis, parseInt(e.target.value))}
+              className="w-full h-1 bg-dark-600 rounded-lg appearance-none cursor-pointer accent-brand-500"
+            />
+          </div>
+        ))}
+      </div>
+
+      {path.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {path.map((k, i) => (
+            <span key={i} className="flex items-center gap-1 text-[10px] font-mono bg-dark-700 text-gray-300 rounded px-1.5 py-0.5">
+              {k.time.toFixed(1)}s · {Math.round(k.x * 100)}%
+              <button onClick={() => onChange(path.filter((_, j) => j !== i))} className="text-gray-500 hover:text-red-400">
+                <X size={10} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <p className="text-[10px] text-gray-500">
+        Moving a slider sets a keyframe at the playhead. The crop eases smoothly between keyframes in the preview and the export.
+      </p>
+    </div>
+  );
+};
+
+export default ReframePanel;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { VideoClip } from '../types';
+import { getClipDuration, getClipSegments, getSegmentOffset } from '../services/segmentService';
+import { Layers } from 'lucide-react';
+
+interface SegmentStripProps {
+  clip: VideoClip;
+  currentTime: number; // Relative to the start of the finished short
+  onSeek: (relativeTime: number) => void;
+}
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+// The source ranges of a supercut, sized by length, in playback order
+const SegmentStrip: React.FC<SegmentStripProps> = ({ clip, currentTime, onSeek }) => {
+  const segments = getClipSegments(clip);
+  const duration = getClipDuration(clip);
+  const toPercent = (time: number) => `${(time / duration) * 100}%`;
+
+  return (
+    <div className="bg-dark-800 rounded-xl border border-dark-700 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <Layers size={14} className="text-brand-400" />
+          Supercut
+        </h3>
+        <span className="text-xs font-mono text-gray-400">
+          {segments.length} segments <span className="text-gray-600 ml-2">({duration.toFixed(2)}s)</span>
+        </span>
+      </div>
+
+      <div className="relative h-10 flex gap-0.5 select-none">
+        {segments.map((segment, i) => (
+          <button
+            key={i}
+            onClick={() => onSeek(getSegmentOffset(segments, i))}
+            title={`Segment ${i + 1}: ${formatTime(segment.startTime)} - ${formatTime(segment.endTime)} of the source`}
+            className="h-full min-w-0 rounded bg-brand-900/50 border border-brand-500/50 hover:bg-brand-800/50 text-[10px] font-mono text-gray-300 truncate px-1 transition"
+            style={{ width: toPercent(segment.endTime - segment.startTime) }}
+          >
+            {formatTime(segment.startTime)}
+          </button>
+        ))}
+
+        {/* Playhead */}
+        <div
+          className="absolute top-0 bottom-0 w-px bg-yellow-400 pointer-events-none"
+          style={{ left: toPercent(Math.max(0, Math.min(duration, currentTime))) }}
+        />
+      </div>
+
+      <p className="text-[10px] text-gray-500">
+        Segments play back to back as one short. Click one to jump to it.
+      </p>
+    </div>
+  );
+};
+
+export default SegmentStrip;
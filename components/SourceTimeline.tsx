@@ -0,0 +1,290 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProcessingState, VideoClip } from '../types';
+import { getAudioEnvelope, getWaveformPeaks } from '../services/mediaService';
+import { detectSceneCuts } from '../services/sceneService';
+import { getClipSegments } from '../services/segmentService';
+import { MIN_MANUAL_CLIP_LENGTH } from '../services/clipService';
+import { Film, Loader2, Plus, X } from 'lucide-react';
+
+interface SourceTimelineProps {
+  videoUrl: string;
+  clips: VideoClip[];
+  selectedClipId: string;
+  sourceDuration: number; // Full length of the source video in seconds
+  currentTime: number; // Absolute time in the source video
+  onSeek: (time: number) => void;
+  onSelectClip: (clipId: string) => void;
+  onCreateClip: (startTime: number, endTime: number) => void;
+  creatingClip: ProcessingState | null; // Progress while a new clip's range is transcribed
+  onCancelCreateClip: () => void;
+}
+
+const WAVEFORM_BUCKETS = 600;
+const DRAG_THRESHOLD = 4; // pixels the pointer has to move before a click becomes a selection
+const CLIP_COLORS = ['#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#3b82f6', '#ef4444', '#14b8a6', '#eab308'];
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+// m:ss.t for the marked range, which is usually set to the tenth of a second
+const formatPrecise = (seconds: number) => `${formatTime(seconds)}.${Math.floor((seconds % 1) * 10)}`;
+
+// The whole source at a glance: waveform, shot changes and where each clip sits.
+// Click to seek, drag across the waveform to cut a new clip.
+const SourceTimeline: React.FC<SourceTimelineProps> = ({ videoUrl, clips, selectedClipId, sourceDuration, currentTime, onSeek, onSelectClip, onCreateClip, creatingClip, onCancelCreateClip }) => {
+  const isCreatingClip = creatingClip !== null;
+  const trackRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [waveformError, setWaveformError] = useState(false);
+  const [sceneCuts, setSceneCuts] = useState<number[]>([]);
+  const [sceneProgress, setSceneProgress] = useState<number | null>(null);
+  // Pointer down on the track; becomes a range selection once it moves far enough
+  const [drag, setDrag] = useState<{ originX: number; originTime: number; time: number; selecting: boolean } | null>(null);
+  // In / out points marked at the playhead for "New clip from range"
+  const [markIn, setMarkIn] = useState<number | null>(null);
+  const [markOut, setMarkOut] = useState<number | null>(null);
+
+  // Peaks from the source's loudness envelope (shared with the caption editor)
+  useEffect(() => {
+    if (!sourceDuration) return;
+    const controller = new AbortController();
+    setPeaks(null);
+    setWaveformError(false);
+
+    getAudioEnvelope(videoUrl, controller.signal)
+      .then(envelope => setPeaks(getWaveformPeaks(envelope, 0, sourceDuration, WAVEFORM_BUCKETS)))
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error("Waveform decode failed", err);
+        setWaveformError(true);
+      });
+
+    return () => controller.abort();
+  }, [videoUrl, sourceDuration]);
+
+  // Scene detection stops when the timeline goes away or the source changes
+  useEffect(() => {
+    const controller = new AbortController();
+    setSceneProgress(0);
+    detectSceneCuts(videoUrl, percent => setSceneProgress(percent), controller.signal)
+      .then(cuts => setSceneCuts(cuts))
+      .catch(err => { if (!controller.signal.aborted) console.error("Scene detection failed", err); })
+      .finally(() => { if (!controller.signal.aborted) setSceneProgress(null); });
+    return () => controller.abort();
+  }, [videoUrl]);
+
+  // Draw waveform
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const { width, height } = canvas;
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = 'rgba(156, 163, 175, 0.5)'; // gray-400
+    const barWidth = width / peaks.length;
+    peaks.forEach((peak, i) => {
+      const barHeight = Math.max(1, peak * height);
+      ctx.fillRect(i * barWidth, (height - barHeight) / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+  }, [peaks]);
+
+  const timeFromX = (clientX: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * sourceDuration;
+  };
+
+  // Pointer tracking for click-to-seek and drag-to-select
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const selecting = drag.selecting || Math.abs(e.clientX - drag.originX) > DRAG_THRESHOLD;
+      setDrag({ ...drag, time: timeFromX(e.clientX), selecting });
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      const time = timeFromX(e.clientX);
+      setDrag(null);
+      if (!drag.selecting) {
+        onSeek(time);
+      } else if (Math.abs(time - drag.originTime) >= MIN_MANUAL_CLIP_LENGTH && !isCreatingClip) {
+        onCreateClip(Math.min(time, drag.originTime), Math.max(time, drag.originTime));
+      }
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, sourceDuration, isCreatingClip]);
+
+  if (!sourceDuration) return null;
+
+  const playhead = Math.round(Math.max(0, Math.min(sourceDuration, currentTime)) * 10) / 10;
+  const markedRange = markIn !== null && markOut !== null && markOut - markIn >= MIN_MANUAL_CLIP_LENGTH
+    ? { start: markIn, end: markOut }
+    : null;
+
+  const toPercent = (time: number) => `${(time / sourceDuration) * 100}%`;
+  const selection = drag?.selecting
+    ? { start: Math.min(drag.originTime, drag.time), end: Math.max(drag.originTime, drag.time) }
+    : null;
+
+  return (
+    <div className="bg-dark-800 rounded-xl border border-dark-700 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <Film size={14} className="text-brand-400" />
+          Source
+        </h3>
+        <span className="text-xs font-mono text-gray-400 flex items-center gap-2">
+          {sceneProgress !== null
+            ? <><Loader2 size={12} className="animate-spin" /> Finding scenes {Math.round(sceneProgress)}%</>
+            : <span className="text-gray-600">{sceneCuts.length} scene cuts</span>}
+          {formatTime(currentTime)} / {formatTime(sourceDuration)}
+        </span>
+      </div>
+
+      {/* Clip lane */}
+      <div className="relative h-4 select-none">
+        {clips.flatMap((clip, i) => getClipSegments(clip).map((segment, j) => (
+          <button
+            key={`${clip.id}-${j}`}
+            onClick={() => onSelectClip(clip.id)}
+            title={`${clip.title} (${formatTime(segment.startTime)} - ${formatTime(segment.endTime)})`}
+            className={`absolute top-0 bottom-0 min-w-[3px] rounded-sm transition ${clip.id === selectedClipId ? 'ring-2 ring-white z-10' : 'opacity-70 hover:opacity-100'}`}
+            style={{
+              left: toPercent(segment.startTime),
+              width: toPercent(segment.endTime - segment.startTime),
+              backgroundColor: CLIP_COLORS[i % CLIP_COLORS.length]
+            }}
+          />
+        )))}
+      </div>
+
+      {/* Waveform, scene cuts and playhead */}
+      <div
+        ref={trackRef}
+        onPointerDown={(e) => {
+          e.preventDefault();
+          const time = timeFromX(e.clientX);
+          setDrag({ originX: e.clientX, originTime: time, time, selecting: false });
+        }}
+        className="relative h-16 bg-dark-900 rounded-lg border border-dark-600 overflow-hidden cursor-crosshair select-none"
+      >
+        <canvas ref={canvasRef} width={WAVEFORM_BUCKETS * 2} height={64} className="absolute inset-0 w-full h-full" />
+        {!peaks && (
+          <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-500 gap-2">
+            {waveformError ? 'Waveform unavailable' : <><Loader2 size={12} className="animate-spin" /> Loading waveform...</>}
+          </div>
+        )}
+
+        {/* Shaded clip ranges */}
+        {clips.flatMap((clip, i) => getClipSegments(clip).map((segment, j) => (
+          <div
+            key={`${clip.id}-${j}`}
+            className="absolute top-0 bottom-0 pointer-events-none"
+            style={{
+              left: toPercent(segment.startTime),
+              width: toPercent(segment.endTime - segment.startTime),
+              backgroundColor: `${CLIP_COLORS[i % CLIP_COLORS.length]}26` // ~15% opacity
+            }}
+          />
+        )))}
+
+        {sceneCuts.map(time => (
+          <div key={time} className="absolute top-0 bottom-0 w-px bg-white/30 pointer-events-none" style={{ left: toPercent(time) }} />
+        ))}
+
+        {/* Marked in / out points */}
+        {[markIn, markOut].map((time, i) => time !== null && (
+          <div key={i} className="absolute top-0 bottom-0 w-0.5 bg-brand-300 pointer-events-none" style={{ left: toPercent(time) }} />
+        ))}
+        {markedRange && (
+          <div
+            className="absolute top-0 bottom-0 border-y-2 border-dashed border-brand-300 pointer-events-none"
+            style={{ left: toPercent(markedRange.start), width: toPercent(markedRange.end - markedRange.start) }}
+          />
+        )}
+
+        {/* New clip being dragged out */}
+        {selection && (
+          <div
+            className="absolute top-0 bottom-0 bg-brand-500/30 border-x-2 border-brand-400 pointer-events-none"
+            style={{ left: toPercent(selection.start), width: toPercent(selection.end - selection.start) }}
+          >
+            <span className="absolute top-1 left-1 text-[10px] font-mono text-white whitespace-nowrap">
+              {(selection.end - selection.start).toFixed(1)}s
+            </span>
+          </div>
+        )}
+
+        <div
+          className="absolute top-0 bottom-0 w-px bg-yellow-400 pointer-events-none"
+          style={{ left: toPercent(Math.max(0, Math.min(sourceDuration, currentTime))) }}
+        />
+      </div>
+
+      {/* Mark in / out at the playhead */}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => {
+            setMarkIn(playhead);
+            if (markOut !== null && markOut <= playhead) setMarkOut(null);
+          }}
+          className="text-xs px-2 py-1 rounded-md bg-dark-700 hover:bg-dark-600 text-gray-300 hover:text-white transition"
+        >
+          Mark in
+        </button>
+        <button
+          onClick={() => {
+            setMarkOut(playhead);
+            if (markIn !== null && markIn >= playhead) setMarkIn(null);
+          }}
+          className="text-xs px-2 py-1 rounded-md bg-dark-700 hover:bg-dark-600 text-gray-300 hover:text-white transition"
+        >
+          Mark out
+        </button>
+        <span className="text-xs font-mono text-gray-400 flex-1">
+          {markIn !== null ? formatPrecise(markIn) : '-:--'} → {markOut !== null ? formatPrecise(markOut) : '-:--'}
+        </span>
+        <button
+          onClick={() => {
+            if (!markedRange) return;
+            onCreateClip(markedRange.start, markedRange.end);
+            setMarkIn(null);
+            setMarkOut(null);
+          }}
+          disabled={!markedRange || isCreatingClip}
+          className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-brand-600 hover:bg-brand-500 text-white transition disabled:opacity-50"
+        >
+          {creatingClip
+            ? <><Loader2 size={12} className="animate-spin" /> {creatingClip.status === 'UPLOADING'
+                ? `${creatingClip.message || 'Uploading...'} ${Math.round(creatingClip.progress ?? 0)}%`
+                : 'Transcribing...'}</>
+            : <><Plus size={12} /> New clip from range</>}
+        </button>
+        {isCreatingClip && (
+          <button onClick={onCancelCreateClip} title="Cancel" className="p-1 text-gray-500 hover:text-white">
+            <X size={12} />
+          </button>
+        )}
+      </div>
+
+      <p className="text-[10px] text-gray-500">
+        Click to jump anywhere in the source. Drag across the waveform, or mark in and out at the playhead,
+        to make a new clip; only that range is transcribed for its captions.
+      </p>
+    </div>
+  );
+};
+
+export default SourceTimeline;
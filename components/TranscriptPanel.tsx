@@ -0,0 +1,268 @@
+import React, { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { Caption, ProcessingState, SpeakerSettings, VideoClip, WordRange } from '../types';
+import { transcribeVideo } from '../services/analysisService';
+import { TranscriptWord, createClipFromTranscript, getTranscriptWords, searchTranscript } from '../services/transcriptService';
+import { MIN_MANUAL_CLIP_LENGTH } from '../services/clipService';
+import { getSpeakerColor, getSpeakerName } from '../services/speakerService';
+import { FileText, Loader2, Search, ChevronUp, ChevronDown, Plus, X } from 'lucide-react';
+
+interface TranscriptPanelProps {
+  videoFile: File | null;
+  transcript: Caption[] | null;
+  speakers: SpeakerSettings;
+  currentTime: number; // Absolute time in the source video
+  onTranscriptChange: (transcript: Caption[]) => void;
+  onSeek: (time: number) => void;
+  onCreateClip: (clip: VideoClip) => void;
+}
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+interface ParagraphProps {
+  words: TranscriptWord[];
+  activeIndex: number;         // Word being spoken, -1 when it's in another paragraph
+  matches: WordRange[];        // Search matches within this paragraph
+  currentMatch: WordRange | null;
+  speaker?: { name: string; color: string }; // Shown when the speaker changes
+  onSeek: (time: number) => void;
+}
+
+// One transcript chunk. Memoised so playback only re-renders the paragraph being spoken.
+const Paragraph = memo<ParagraphProps>(({ words, activeIndex, matches, currentMatch, speaker, onSeek }) => (
+  <p className="text-sm leading-relaxed text-gray-300">
+    {speaker && (
+      <span className="block text-[10px] font-bold uppercase tracking-wider select-none" style={{ color: speaker.color }}>
+        {speaker.name}
+      </span>
+    )}
+    <button
+      onClick={() => onSeek(words[0].start)}
+      className="mr-2 text-[10px] font-mono text-gray-500 hover:text-brand-400 select-none"
+    >
+      {formatTime(words[0].start)}
+    </button>
+    {words.map(word => {
+      const isMatch = matches.some(m => word.index >= m.start && word.index < m.end);
+      const isCurrent = currentMatch !== null && word.index >= currentMatch.start && word.index < currentMatch.end;
+      return (
+        <React.Fragment key={word.index}>
+          <span
+            data-word={word.index}
+            onClick={() => {
+              // A click that ends a text selection shouldn't jump
+              if (window.getSelection()?.isCollapsed !== false) onSeek(word.start);
+            }}
+            className={`cursor-pointer rounded-sm hover:text-white ${
+              isCurrent ? 'bg-yellow-400 text-dark-900' : isMatch ? 'bg-yellow-400/30 text-white' : word.index === activeIndex ? 'text-brand-300' : ''
+            }`}
+          >
+            {word.text}
+          </span>{' '}
+        </React.Fragment>
+      );
+    })}
+  </p>
+));
+
+// The whole source as a searchable document. Selecting a passage makes a clip from it.
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ videoFile, transcript, speakers, currentTime, onTranscriptChange, onSeek, onCreateClip }) => {
+  const documentRef = useRef<HTMLDivElement>(null);
+  const [transcribeProgress, setTranscribeProgress] = useState<ProcessingState | null>(null); // null when idle
+  const transcribeRef = useRef<AbortController | null>(null);
+  const [query, setQuery] = useState('');
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [selection, setSelection] = useState<{ first: number; last: number } | null>(null);
+
+  const words = useMemo(() => getTranscriptWords(transcript || []), [transcript]);
+  const paragraphs = useMemo(() => {
+    const groups: TranscriptWord[][] = [];
+    words.forEach(word => {
+      const last = groups[groups.length - 1];
+      if (last && last[0].captionIndex === word.captionIndex) last.push(word);
+      else groups.push([word]);
+    });
+    return groups;
+  }, [words]);
+  const matches = useMemo(() => searchTranscript(words, query), [words, query]);
+  // Per paragraph, so a paragraph's props only change when its own matches do
+  const paragraphMatches = useMemo(() => paragraphs.map(paragraph => {
+    const first = paragraph[0].index;
+    const last = paragraph[paragraph.length - 1].index;
+    return matches.filter(m => m.start <= last && m.end > first);
+  }), [paragraphs, matches]);
+  const currentMatch = matches[matchIndex] || null;
+  // Speaker heading for each paragraph that starts a new speaker's turn
+  const paragraphSpeakers = useMemo(() => paragraphs.map((paragraph, i) => {
+    const label = paragraph[0].speaker;
+    if (!label || paragraphs[i - 1]?.[0].speaker === label) return undefined;
+    return { name: getSpeakerName(label, speakers), color: getSpeakerColor(label, speakers) };
+  }), [paragraphs, speakers]);
+
+  // Last word that has started; stays lit through the pauses between words
+  let activeIndex = -1;
+  for (let i = 0; i < words.length && words[i].start <= currentTime; i++) activeIndex = i;
+
+  useEffect(() => setMatchIndex(0), [query]);
+
+  // Bring the current search match into view
+  useEffect(() => {
+    if (!currentMatch) return;
+    documentRef.current?.querySelector(`[data-word="${currentMatch.start}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [currentMatch?.start]);
+
+  // A transcription in progress stops with the panel (e.g. another project is opened)
+  useEffect(() => () => transcribeRef.current?.abort(), []);
+
+  const handleTranscribe = async () => {
+    if (!videoFile) return;
+    const controller = new AbortController();
+    transcribeRef.current = controller;
+    setTranscribeProgress({ status: 'ANALYZING', progress: 0 });
+    try {
+      onTranscriptChange(await transcribeVideo(videoFile, { onProgress: setTranscribeProgress, signal: controller.signal }));
+      setSelection(null);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Transcription failed", err);
+      alert("Could not transcribe the video. Please try again.");
+    } finally {
+      if (transcribeRef.current === controller) transcribeRef.current = null;
+      setTranscribeProgress(null);
+    }
+  };
+
+  const progressLabel = (state: ProcessingState) => {
+    const percent = state.progress !== undefined ? ` ${Math.round(state.progress)}%` : '';
+    return state.status === 'UPLOADING' ? `${state.message || 'Uploading...'}${percent}` : `Transcribing...${percent}`;
+  };
+
+  // Map the browser's text selection onto transcript words
+  const handleSelectionEnd = () => {
+    const sel = window.getSelection();
+    if (!sel || sel.isCollapsed || sel.rangeCount === 0 || !documentRef.current) {
+      setSelection(null);
+      return;
+    }
+    const range = sel.getRangeAt(0);
+    const indices = Array.from<HTMLElement>(documentRef.current.querySelectorAll<HTMLElement>('[data-word]'))
+      .filter(el => range.intersectsNode(el))
+      .map(el => Number(el.dataset.word));
+    setSelection(indices.length > 0 ? { first: Math.min(...indices), last: Math.max(...indices) } : null);
+  };
+
+  const stepMatch = (delta: number) => {
+    if (matches.length === 0) return;
+    const next = (matchIndex + delta + matches.length) % matches.length;
+    setMatchIndex(next);
+    onSeek(words[matches[next].start].start);
+  };
+
+  const selectionLength = selection ? words[selection.last].end - words[selection.first].start : 0;
+
+  return (
+    <div className="bg-dark-800 rounded-xl border border-dark-700 p-4 flex flex-col gap-3 h-full min-h-0">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <FileText size={14} className="text-brand-400" />
+          Transcript
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleTranscribe}
+            disabled={transcribeProgress !== null || !videoFile}
+            className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-brand-600 hover:bg-brand-500 text-white transition disabled:opacity-60"
+          >
+            {transcribeProgress !== null
+              ? <><Loader2 size={12} className="animate-spin" /> {progressLabel(transcribeProgress)}</>
+              : <><FileText size={12} /> {transcript ? 'Re-transcribe' : 'Transcribe video'}</>}
+          </button>
+          {transcribeProgress !== null && (
+            <button onClick={() => transcribeRef.current?.abort()} title="Cancel transcription" className="p-1 text-gray-500 hover:text-white">
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {transcript && (
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-500" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') stepMatch(e.shiftKey ? -1 : 1);
+              }}
+              placeholder="Search the transcript"
+              className="w-full bg-dark-900 border border-dark-600 rounded pl-7 pr-2 py-1.5 text-xs text-white outline-none focus:border-brand-500"
+            />
+          </div>
+          {query && (
+            <>
+              <span className="text-[10px] font-mono text-gray-500 whitespace-nowrap">
+                {matches.length > 0 ? `${matchIndex + 1}/${matches.length}` : '0/0'}
+              </span>
+              <button onClick={() => stepMatch(-1)} className="text-gray-500 hover:text-white"><ChevronUp size={14} /></button>
+              <button onClick={() => stepMatch(1)} className="text-gray-500 hover:text-white"><ChevronDown size={14} /></button>
+            </>
+          )}
+        </div>
+      )}
+
+      <div ref={documentRef} onMouseUp={handleSelectionEnd} className="flex-1 min-h-0 overflow-y-auto space-y-3 pr-1">
+        {!transcript && (
+          <p className="text-xs text-gray-500">
+            Transcribe the whole video to search it and make clips by selecting text.
+          </p>
+        )}
+        {transcript && words.length === 0 && <p className="text-xs text-gray-500">No speech was found in this video.</p>}
+        {paragraphs.map((paragraph, i) => {
+          const first = paragraph[0].index;
+          const last = paragraph[paragraph.length - 1].index;
+          return (
+            <Paragraph
+              key={first}
+              words={paragraph}
+              activeIndex={activeIndex >= first && activeIndex <= last ? activeIndex : -1}
+              matches={paragraphMatches[i]}
+              currentMatch={currentMatch && paragraphMatches[i].includes(currentMatch) ? currentMatch : null}
+              speaker={paragraphSpeakers[i]}
+              onSeek={onSeek}
+            />
+          );
+        })}
+      </div>
+
+      {selection && (
+        <div className="flex items-center justify-between gap-2 bg-dark-900 border border-brand-500/50 rounded-lg px-3 py-2">
+          <span className="text-xs text-gray-400 font-mono">
+            {formatTime(words[selection.first].start)} → {formatTime(words[selection.last].end)} ({selectionLength.toFixed(1)}s)
+          </span>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => {
+                onCreateClip(createClipFromTranscript(words, selection.first, selection.last));
+                window.getSelection()?.removeAllRanges();
+                setSelection(null);
+              }}
+              disabled={selectionLength < MIN_MANUAL_CLIP_LENGTH}
+              className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-brand-600 hover:bg-brand-500 text-white transition disabled:opacity-50"
+            >
+              <Plus size={12} /> Create clip
+            </button>
+            <button onClick={() => setSelection(null)} className="p-1 text-gray-500 hover:text-white">
+              <X size={12} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,198 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VideoClip } from '../types';
+import { DEFAULT_FPS } from '../constants';
+import { detectFrameRate, extractThumbnails } from '../services/mediaService';
+import { Scissors, Loader2 } from 'lucide-react';
+
+interface TrimBarProps {
+  videoUrl: string;
+  clip: VideoClip;
+  sourceDuration: number; // Full length of the source video in seconds
+  currentTime: number; // Absolute time in the source video
+  onTrim: (startTime: number, endTime: number) => void;
+  onSeek: (time: number) => void;
+}
+
+type Edge = 'start' | 'end';
+
+const THUMB_COUNT = 10;
+const THUMB_DEBOUNCE_MS = 300; // nudging a handle moves the window; only extract once it settles
+const MIN_CLIP_LENGTH = 1; // seconds
+
+const snapToFrame = (time: number, fps: number) => Math.round(time * fps) / fps;
+
+// m:ss:ff with the source's frame rate, or m:ss.cc while it isn't known
+const formatTimecode = (seconds: number, fps: number | null) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  if (!fps) return `${m}:${s.toString().padStart(2, '0')}.${Math.floor((seconds % 1) * 100).toString().padStart(2, '0')}`;
+  const frames = Math.round(fps);
+  const f = Math.round((seconds % 1) * fps) % frames;
+  return `${m}:${s.toString().padStart(2, '0')}:${f.toString().padStart(2, '0')}`;
+};
+
+// Visible part of the source: the clip plus some room on each side to extend into
+const getWindow = (clip: VideoClip, sourceDuration: number) => {
+  const pad = Math.max(5, (clip.endTime - clip.startTime) * 0.5);
+  return {
+    start: Math.max(0, clip.startTime - pad),
+    end: Math.min(sourceDuration || clip.endTime + pad, clip.endTime + pad)
+  };
+};
+
+const TrimBar: React.FC<TrimBarProps> = ({ videoUrl, clip, sourceDuration, currentTime, onTrim, onSeek }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [dragEdge, setDragEdge] = useState<Edge | null>(null);
+  // While dragging, the handles move locally and are committed on release
+  const [draft, setDraft] = useState<{ start: number; end: number } | null>(null);
+  const [view, setView] = useState(() => getWindow(clip, sourceDuration));
+  const [thumbs, setThumbs] = useState<string[]>([]);
+  // Measured from the source; until then (or if the browser can't tell) edits step in 1/30s
+  const [sourceFps, setSourceFps] = useState<number | null>(null);
+  const fps = sourceFps ?? DEFAULT_FPS;
+
+  const inPoint = draft?.start ?? clip.startTime;
+  const outPoint = draft?.end ?? clip.endTime;
+
+  // Re-frame the window whenever a committed trim (or a different clip) arrives
+  useEffect(() => {
+    if (dragEdge) return;
+    setView(getWindow(clip, sourceDuration));
+  }, [clip.id, clip.startTime, clip.endTime, sourceDuration, dragEdge]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setSourceFps(null);
+    detectFrameRate(videoUrl, controller.signal)
+      .then(setSourceFps)
+      .catch(err => { if (!controller.signal.aborted) console.error("Frame rate detection failed", err); });
+    return () => controller.abort();
+  }, [videoUrl]);
+
+  // A newer window cancels the extraction for the previous one
+  useEffect(() => {
+    const controller = new AbortController();
+    setThumbs([]);
+    const timer = setTimeout(() => {
+      extractThumbnails(videoUrl, view.start, view.end, THUMB_COUNT, undefined, controller.signal)
+        .then(setThumbs)
+        .catch(err => { if (!controller.signal.aborted) console.error("Thumbnail extraction failed", err); });
+    }, THUMB_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [videoUrl, view.start, view.end]);
+
+  const clampRange = (edge: Edge, time: number) => {
+    const max = sourceDuration || view.end;
+    if (edge === 'start') {
+      return { start: snapToFrame(Math.max(0, Math.min(time, outPoint - MIN_CLIP_LENGTH)), fps), end: outPoint };
+    }
+    return { start: inPoint, end: snapToFrame(Math.min(max, Math.max(time, inPoint + MIN_CLIP_LENGTH)), fps) };
+  };
+
+  useEffect(() => {
+    if (!dragEdge) return;
+
+    const timeFromEvent = (e: PointerEvent) => {
+      const rect = trackRef.current!.getBoundingClientRect();
+      const ratio = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+      return view.start + ratio * (view.end - view.start);
+    };
+
+    const handleMove = (e: PointerEvent) => {
+      const range = clampRange(dragEdge, timeFromEvent(e));
+      setDraft(range);
+      onSeek(dragEdge === 'start' ? range.start : range.end - 1 / fps);
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      const range = clampRange(dragEdge, timeFromEvent(e));
+      setDraft(null);
+      setDragEdge(null);
+      onTrim(range.start, range.end);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [dragEdge, view, inPoint, outPoint, fps]);
+
+  // Arrow keys nudge one frame (1/30s if the frame rate is unknown), Shift+Arrow nudges 0.1s
+  const handleKeyDown = (edge: Edge) => (e: React.KeyboardEvent) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+    const step = (e.shiftKey ? 0.1 : 1 / fps) * (e.key === 'ArrowLeft' ? -1 : 1);
+    const range = clampRange(edge, (edge === 'start' ? inPoint : outPoint) + step);
+    onTrim(range.start, range.end);
+    // Show the last frame of the clip rather than the out point itself (which loops back)
+    onSeek(edge === 'start' ? range.start : range.end - 1 / fps);
+  };
+
+  const toPercent = (time: number) => `${((time - view.start) / (view.end - view.start)) * 100}%`;
+
+  return (
+    <div className="bg-dark-800 rounded-xl border border-dark-700 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <Scissors size={14} className="text-brand-400" />
+          Trim
+        </h3>
+        <span className="text-xs font-mono text-gray-400">
+          {formatTimecode(inPoint, sourceFps)} → {formatTimecode(outPoint, sourceFps)}
+          <span className="text-gray-600 ml-2">({(outPoint - inPoint).toFixed(2)}s{sourceFps ? ` @ ${sourceFps} fps` : ''})</span>
+        </span>
+      </div>
+
+      <div ref={trackRef} className="relative h-16 rounded-lg overflow-hidden bg-dark-900 border border-dark-600 select-none">
+        {/* Thumbnails */}
+        <div className="absolute inset-0 flex">
+          {thumbs.length > 0
+            ? thumbs.map((src, i) => <img key={i} src={src} alt="" className="h-full flex-1 object-cover min-w-0" draggable={false} />)
+            : <div className="flex-1 flex items-center justify-center text-gray-600"><Loader2 size={14} className="animate-spin" /></div>}
+        </div>
+
+        {/* Dimmed regions outside the clip */}
+        <div className="absolute top-0 bottom-0 left-0 bg-black/70" style={{ width: toPercent(inPoint) }} />
+        <div className="absolute top-0 bottom-0 right-0 bg-black/70" style={{ left: toPercent(outPoint) }} />
+
+        {/* Selected range */}
+        <div
+          className="absolute top-0 bottom-0 border-y-2 border-brand-400 pointer-events-none"
+          style={{ left: toPercent(inPoint), width: `calc(${toPercent(outPoint)} - ${toPercent(inPoint)})` }}
+        />
+
+        {/* Playhead */}
+        {currentTime >= view.start && currentTime <= view.end && (
+          <div className="absolute top-0 bottom-0 w-px bg-yellow-400 pointer-events-none" style={{ left: toPercent(currentTime) }} />
+        )}
+
+        {/* Handles */}
+        {(['start', 'end'] as Edge[]).map(edge => (
+          <button
+            key={edge}
+            onPointerDown={(e) => {
+              e.preventDefault();
+              (e.currentTarget as HTMLButtonElement).focus();
+              setDragEdge(edge);
+            }}
+            onKeyDown={handleKeyDown(edge)}
+            title={`${edge === 'start' ? 'In' : 'Out'} point (←/→ ${sourceFps ? 'one frame' : '1/30s'}, Shift for 0.1s)`}
+            className="absolute top-0 bottom-0 w-3 -ml-1.5 bg-brand-400 hover:bg-brand-300 focus:bg-brand-300 focus:outline-none focus:ring-2 focus:ring-white rounded cursor-ew-resize"
+            style={{ left: toPercent(edge === 'start' ? inPoint : outPoint) }}
+          />
+        ))}
+      </div>
+
+      <p className="text-[10px] text-gray-500">
+        Drag the handles or focus one and use the arrow keys. Captions are shifted to stay in sync.
+      </p>
+    </div>
+  );
+};
+
+export default TrimBar;
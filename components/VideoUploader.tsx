@@ -3,6 +3,8 @@ import React, { useCallback, useState } from 'react';
 import { UploadCloud, Film, AlertCircle, Lock, Crown, Search, Sparkles } from 'lucide-react';
 import { userService } from '../services/userService';
 
+const MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024;
+
 interface VideoUploaderProps {
   onFileSelect: (file: File, searchQuery?: string) => void;
   onShowUpgrade: () => void;
@@ -63,9 +65,9 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, onShowUpgra
       setError("Please upload a valid video file.");
       return;
     }
-    // Check size (Max 200MB)
-    if (file.size > 200 * 1024 * 1024) {
-      setError("File is too large (Max 200MB).");
+    // Check size (Max 2GB, the Files API limit)
+    if (file.size > MAX_FILE_SIZE) {
+      setError("File is too large (Max 2GB).");
       return;
     }
     
@@ -186,7 +188,7 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, onShowUpgra
           
           <div className="mt-4 text-xs text-gray-500 flex items-center gap-2">
             <Film size={14} />
-            <span>Supported formats: MP4, MOV, WEBM (Max 200MB)</span>
+            <span>Supported formats: MP4, MOV, WEBM (Max 2GB)</span>
           </div>
 
           {error && (
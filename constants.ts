@@ -1,45 +1,209 @@
-import { ClipStyle, Template, VideoClip } from './types';
+import { AspectRatio, CaptionAnimation, ClipStyle, EditorSettings, EmphasisAnimation, FitMode, MusicSettings, OutputResolution, OutputSettings, Template, VideoClip } from './types';
+
+// Frame grid used for trimming and nudging (source frame rate isn't exposed by the browser)
+export const DEFAULT_FPS = 30;
+
+export const DEFAULT_EDITOR_SETTINGS: EditorSettings = {
+  templateId: ClipStyle.MODERN,
+  customStyle: {
+    textColor: '#ffffff',
+    backgroundColor: '#000000',
+    bgOpacity: 50, // Default 50%
+    fontWeight: '800' // Default Bold
+  },
+  output: {
+    aspectRatio: '9:16',
+    resolution: '1080p',
+    fitMode: 'crop'
+  },
+  speakers: {
+    colorCaptions: true,
+    styles: {}
+  }
+};
+
+export const DEFAULT_MUSIC_SETTINGS: Omit<MusicSettings, 'fileName'> = {
+  volume: 30,
+  fadeIn: 1,
+  fadeOut: 2,
+  ducking: 70
+};
+
+// Default caption colours for diarized speakers, in order
+export const SPEAKER_COLORS = ['#facc15', '#38bdf8', '#f472b6', '#4ade80', '#fb923c', '#a78bfa'];
+
+export const ASPECT_RATIOS: Record<AspectRatio, { width: number; height: number; label: string; previewMaxWidth: number }> = {
+  '9:16': { width: 9, height: 16, label: 'Shorts / Reels', previewMaxWidth: 350 },
+  '1:1': { width: 1, height: 1, label: 'Square feed', previewMaxWidth: 450 },
+  '4:5': { width: 4, height: 5, label: 'Portrait feed', previewMaxWidth: 400 },
+  '16:9': { width: 16, height: 9, label: 'YouTube', previewMaxWidth: 640 }
+};
+
+// Pixel size of the shorter side of the output
+export const RESOLUTIONS: Record<OutputResolution, { label: string; shortSide: number }> = {
+  '720p': { label: '720p', shortSide: 720 },
+  '1080p': { label: '1080p', shortSide: 1080 },
+  '4k': { label: '4K', shortSide: 2160 }
+};
+
+// Caption translation targets, by language code
+export const CAPTION_LANGUAGES: Record<string, string> = {
+  en: 'English',
+  hi: 'Hindi',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  fr: 'French',
+  de: 'German',
+  ar: 'Arabic',
+  ur: 'Urdu',
+  he: 'Hebrew',
+  bn: 'Bengali',
+  ja: 'Japanese',
+  id: 'Indonesian'
+};
+
+export const FIT_MODES: Record<FitMode, string> = {
+  crop: 'Crop',
+  letterbox: 'Letterbox',
+  blur: 'Blur fill'
+};
+
+// Output frame size in pixels, e.g. 9:16 at 1080p = 1080x1920 (always even for the encoders)
+export const getOutputSize = (output: OutputSettings) => {
+  const ratio = ASPECT_RATIOS[output.aspectRatio];
+  const shortSide = RESOLUTIONS[output.resolution].shortSide;
+  const even = (n: number) => Math.round(n / 2) * 2;
+  return ratio.width <= ratio.height
+    ? { width: shortSide, height: even(shortSide * ratio.height / ratio.width) }
+    : { width: even(shortSide * ratio.width / ratio.height), height: shortSide };
+};
+
+// Built-in font choices for captions (uploaded fonts are listed after these)
+export const CAPTION_FONTS = ['Inter', 'Arial', 'Georgia', 'Impact', 'Verdana', 'Trebuchet MS', 'Courier New'];
+
+export const CAPTION_ANIMATIONS: Record<CaptionAnimation, string> = {
+  none: 'None',
+  fade: 'Fade',
+  pop: 'Pop',
+  'slide-up': 'Slide up',
+  typewriter: 'Typewriter'
+};
+
+export const EMPHASIS_ANIMATIONS: Record<EmphasisAnimation, string> = {
+  none: 'None',
+  bounce: 'Bounce',
+  shake: 'Shake'
+};
 
 export const TEMPLATES: Template[] = [
   {
     id: ClipStyle.MODERN,
     name: "Modern Clean",
     previewColor: "bg-white",
-    fontClass: "font-sans font-bold",
-    containerClass: "bottom-20 left-4 right-4 text-center",
-    textClass: "text-2xl text-white drop-shadow-md bg-black/50 px-2 py-1 rounded inline-block"
+    style: {
+      fontFamily: "Inter, Arial, sans-serif",
+      fontSize: 64,
+      fontWeight: "700",
+      italic: false,
+      letterSpacing: 0,
+      casing: 'none',
+      color: "#ffffff",
+      highlightColor: "#facc15",
+      shadow: { color: "rgba(0,0,0,0.5)", blur: 10, offsetX: 0, offsetY: 2 },
+      box: { color: "#000000", opacity: 50, paddingX: 28, paddingY: 12, radius: 12 },
+      rotation: 0,
+      position: { x: 0.5, y: 0.75 },
+      maxWidth: 0.85,
+      animation: 'pop',
+      emphasis: 'bounce'
+    }
   },
   {
     id: ClipStyle.NEON,
     name: "Neon Vibes",
     previewColor: "bg-fuchsia-500",
-    fontClass: "font-sans font-black italic tracking-wider",
-    containerClass: "bottom-1/3 left-0 right-0 text-center",
-    textClass: "text-3xl text-yellow-300 drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)] [text-shadow:_0_0_10px_rgb(255_0_255)] uppercase"
+    style: {
+      fontFamily: "Inter, Arial, sans-serif",
+      fontSize: 72,
+      fontWeight: "900",
+      italic: true,
+      letterSpacing: 3,
+      casing: 'upper',
+      color: "#fde047",
+      highlightColor: "#22d3ee",
+      stroke: { color: "#a21caf", width: 2 },
+      shadow: { color: "#d946ef", blur: 30, offsetX: 0, offsetY: 0 },
+      rotation: 0,
+      position: { x: 0.5, y: 0.66 },
+      maxWidth: 0.9,
+      animation: 'fade',
+      emphasis: 'shake'
+    }
   },
   {
     id: ClipStyle.BOLD,
     name: "Bold Impact",
     previewColor: "bg-red-600",
-    fontClass: "font-serif font-black",
-    containerClass: "top-1/4 left-4 right-4 text-center",
-    textClass: "text-4xl text-white bg-red-600 px-4 py-2 uppercase transform -rotate-2 inline-block shadow-lg"
+    style: {
+      fontFamily: "Georgia, 'Times New Roman', serif",
+      fontSize: 84,
+      fontWeight: "900",
+      italic: false,
+      letterSpacing: 0,
+      casing: 'upper',
+      color: "#ffffff",
+      highlightColor: "#fde047",
+      shadow: { color: "rgba(0,0,0,0.5)", blur: 20, offsetX: 0, offsetY: 8 },
+      box: { color: "#dc2626", opacity: 100, paddingX: 36, paddingY: 16, radius: 0 },
+      rotation: -2,
+      position: { x: 0.5, y: 0.3 },
+      maxWidth: 0.85,
+      animation: 'slide-up',
+      emphasis: 'bounce'
+    }
   },
   {
     id: ClipStyle.MINIMAL,
     name: "Subtle",
     previewColor: "bg-gray-400",
-    fontClass: "font-mono font-medium",
-    containerClass: "bottom-10 left-10 right-10 text-center",
-    textClass: "text-lg text-white/90 bg-black/30 px-3 py-1 rounded-full backdrop-blur-sm"
+    style: {
+      fontFamily: "'Courier New', ui-monospace, monospace",
+      fontSize: 46,
+      fontWeight: "500",
+      italic: false,
+      letterSpacing: 0,
+      casing: 'none',
+      color: "rgba(255,255,255,0.9)",
+      highlightColor: "#c4b5fd",
+      box: { color: "#000000", opacity: 30, paddingX: 28, paddingY: 10, radius: 999 },
+      rotation: 0,
+      position: { x: 0.5, y: 0.88 },
+      maxWidth: 0.8,
+      animation: 'typewriter',
+      emphasis: 'none'
+    }
   },
   {
     id: ClipStyle.GAME,
     name: "Gamer",
     previewColor: "bg-green-500",
-    fontClass: "font-sans font-extrabold",
-    containerClass: "bottom-24 left-2 right-2 text-center",
-    textClass: "text-2xl text-green-400 stroke-black stroke-2 [text-shadow:_2px_2px_0_#000]"
+    style: {
+      fontFamily: "Inter, Arial, sans-serif",
+      fontSize: 72,
+      fontWeight: "800",
+      italic: false,
+      letterSpacing: 0,
+      casing: 'none',
+      color: "#4ade80",
+      highlightColor: "#ffffff",
+      stroke: { color: "#000000", width: 8 },
+      shadow: { color: "#000000", blur: 0, offsetX: 4, offsetY: 4 },
+      rotation: 0,
+      position: { x: 0.5, y: 0.8 },
+      maxWidth: 0.9,
+      animation: 'pop',
+      emphasis: 'shake'
+    }
   }
 ];
 
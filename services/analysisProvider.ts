@@ -0,0 +1,144 @@
+import { Caption, ClipSegment, VideoClip, ProcessingState } from '../types';
+
+export type AnalysisProviderId = 'gemini' | 'openai-compatible' | 'fixture';
+
+export type ProgressCallback = (state: ProcessingState) => void;
+
+export interface AnalysisOptions {
+  searchQuery?: string;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal; // Stops the upload of a large video
+}
+
+// Uploading the video is the long part of a transcription too
+export type TranscribeOptions = Pick<AnalysisOptions, 'onProgress' | 'signal'>;
+
+// A backend that watches a video and proposes clips with captions
+export interface ClipAnalysisProvider {
+  id: AnalysisProviderId;
+  name: string; // Shown to the user while analysis runs
+  analyze: (file: File, options: AnalysisOptions) => Promise<VideoClip[]>;
+  // True when transcribing a range doesn't send the whole video again (the upload is reused and
+  // clipped server-side), so a long source can be transcribed window by window
+  canTranscribeRange: boolean;
+  // Captions for one range of the video, relative to the range start. Without a range the
+  // whole video is transcribed (transcript mode), in absolute time.
+  transcribe: (file: File, range?: ClipSegment, options?: TranscribeOptions) => Promise<Caption[]>;
+}
+
+// Prompt shared by every model-backed provider so they are asked for the same thing
+export const buildAnalysisPrompt = (searchQuery?: string): string => {
+  let taskDescription = "";
+  if (searchQuery && searchQuery.trim().length > 0) {
+      taskDescription = `
+          Task: SEARCH and FIND segments in the video that specifically match this user query: "${searchQuery}".
+          Constraint: Find the best 1-5 segments that satisfy the user's search.
+          If multiple relevant moments exist, provide them as separate segments.
+          If the query implies "combining" moments (e.g. "all mentions of pricing"), return them as ONE supercut:
+          a single segment whose "segments" list holds each source range in playback order.
+      `;
+  } else {
+      taskDescription = `
+          Task: Analyze the uploaded video (AUDIO and VISUAL) to find 5 distinct, engaging "viral" segments.
+      `;
+  }
+
+  return `
+    You are a professional video editor specializing in YouTube Shorts.
+
+    ${taskDescription}
+
+    General Constraint: Each segment MUST be between 15 and 50 seconds long.
+
+    CRITICAL INSTRUCTION FOR CAPTIONS:
+    1. Listen to the AUDIO track of the selected segment extremely carefully.
+    2. Generate a VERBATIM (word-for-word) transcript.
+    3. DO NOT SUMMARIZE. DO NOT INVENT TEXT. If a person says "Umm, well," include "Umm, well".
+    4. Split the transcript into small chunks (3-8 words) for dynamic captions.
+    5. Synchronization must be precise.
+    6. For every caption chunk, also provide word-level timings for each spoken word.
+
+    Output JSON format:
+    For each segment, provide:
+    1. title: A catchy, viral-style title.
+    2. startTime: Start timestamp in seconds (absolute time in original video).
+    3. endTime: End timestamp in seconds (absolute time in original video).
+    4. description: Brief reasoning for selection.
+    5. viralScore: 0-100 score (Relevance score if searching).
+    6. captions: An array of caption objects:
+       - text: The exact spoken words.
+       - start: Start time relative to the SEGMENT START (0.0 = start of the clip).
+       - end: End time relative to the SEGMENT START.
+       - words: An array with one entry per word in the chunk:
+          - text: The word exactly as spoken.
+          - start: When the word starts, relative to the SEGMENT START.
+          - end: When the word ends, relative to the SEGMENT START.
+          - emphasis: true for the 0-2 most important or punchy words in the chunk, otherwise omit it.
+       - speaker: Who is talking in this chunk, as a label that stays the same for that person throughout
+         (e.g. "Speaker 1", "Speaker 2"). Start a new chunk when the speaker changes.
+    7. segments (supercuts only): An ordered array of source ranges to stitch together:
+       - startTime / endTime: The range in seconds (absolute time in original video), at least 1 second long.
+       - captions: Captions for this range, in the same format as above but relative to the RANGE START.
+       For a supercut, set startTime/endTime to the earliest and latest times covered, leave the top-level
+       captions empty, and keep the total length of all ranges between 15 and 50 seconds.
+  `;
+};
+
+// Prompt for transcribing a single, already chosen range, or the whole video when there's
+// no range (no clip detection either way)
+export const buildTranscriptionPrompt = (range?: ClipSegment): string => {
+  const task = range
+    ? `Task: Transcribe ONLY the part of the video from ${range.startTime.toFixed(2)}s to ${range.endTime.toFixed(2)}s
+    (absolute time in the original video). Ignore everything outside that range.`
+    : `Task: Transcribe the ENTIRE video from start to finish, including every speaker.`;
+  const origin = range
+    ? `the RANGE START (0.0 = ${range.startTime.toFixed(2)}s in the original video)`
+    : `the VIDEO START (absolute time in the original video)`;
+  const reference = range ? 'the RANGE START' : 'the VIDEO START';
+
+  return `
+    You are a professional captioner for YouTube Shorts.
+
+    ${task}
+
+    CRITICAL INSTRUCTION FOR CAPTIONS:
+    1. Listen to the AUDIO track extremely carefully.
+    2. Generate a VERBATIM (word-for-word) transcript.
+    3. DO NOT SUMMARIZE. DO NOT INVENT TEXT. If a person says "Umm, well," include "Umm, well".
+    4. Split the transcript into small chunks (3-8 words) for dynamic captions.
+    5. Synchronization must be precise.
+
+    Output JSON format: an array of caption objects:
+       - text: The exact spoken words.
+       - start: Start time relative to ${origin}.
+       - end: End time relative to ${reference}.
+       - words: An array with one entry per word in the chunk:
+          - text: The word exactly as spoken.
+          - start: When the word starts, relative to ${reference}.
+          - end: When the word ends, relative to ${reference}.
+          - emphasis: true for the 0-2 most important or punchy words in the chunk, otherwise omit it.
+       - speaker: Who is talking in this chunk, as a label that stays the same for that person throughout
+         (e.g. "Speaker 1", "Speaker 2"). Start a new chunk when the speaker changes.
+  `;
+};
+
+// Parse a transcription answer. Accepts a bare array or an object wrapping it in `captions`.
+export const parseCaptionsResponse = (text: string): Caption[] => {
+  const parsed = JSON.parse(text);
+  const captions = Array.isArray(parsed) ? parsed : parsed?.captions;
+  if (!Array.isArray(captions)) throw new Error("Response did not contain a list of captions");
+  return captions as Caption[];
+};
+
+// Parse a model's JSON answer. Accepts a bare array or an object wrapping it in `clips`.
+export const parseClipsResponse = (text: string, idPrefix: string): VideoClip[] => {
+  const parsed = JSON.parse(text);
+  const clips = (Array.isArray(parsed) ? parsed : parsed?.clips) as Omit<VideoClip, 'id'>[] | undefined;
+  if (!Array.isArray(clips)) throw new Error("Response did not contain a list of clips");
+
+  // Add IDs
+  return clips.map((clip, index) => ({
+    ...clip,
+    id: `${idPrefix}-${index}-${Date.now()}`
+  }));
+};
@@ -0,0 +1,91 @@
+import { Caption, VideoClip } from '../types';
+import { AnalysisProviderId, ClipAnalysisProvider, ProgressCallback, TranscribeOptions } from './analysisProvider';
+import { geminiProvider } from './geminiService';
+import { openAiCompatibleProvider } from './openAiCompatibleService';
+import { fixtureProvider } from './fixtureProvider';
+import { normalizeClips, normalizeTranscription } from './clipValidation';
+import { getVideoDuration } from './mediaService';
+import { rebaseCaptions } from './captionService';
+
+// Whole-video transcripts are requested in windows of this many seconds. Word-level JSON for
+// an hour of speech is far more than one response can hold.
+const TRANSCRIPT_WINDOW = 5 * 60;
+
+const PROVIDERS: Record<AnalysisProviderId, ClipAnalysisProvider> = {
+  'gemini': geminiProvider,
+  'openai-compatible': openAiCompatibleProvider,
+  'fixture': fixtureProvider
+};
+
+// Selected with ANALYSIS_PROVIDER in .env.local (defaults to Gemini)
+export const getAnalysisProvider = (): ClipAnalysisProvider => {
+  const id = process.env.ANALYSIS_PROVIDER as AnalysisProviderId | undefined;
+  if (id && !PROVIDERS[id]) {
+    console.warn(`Unknown analysis provider "${id}", falling back to Gemini.`);
+  }
+  return (id && PROVIDERS[id]) || geminiProvider;
+};
+
+// Model output is never trusted as-is: it is validated and repaired against the real video length
+export const analyzeVideoContent = async (file: File, searchQuery?: string, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<VideoClip[]> => {
+  const [rawClips, duration] = await Promise.all([
+    getAnalysisProvider().analyze(file, { searchQuery, onProgress, signal }),
+    getVideoDuration(file).catch(() => Infinity) // unknown length: only the 15-50s rule applies
+  ]);
+
+  const { clips, dropped } = normalizeClips(rawClips, duration);
+  if (dropped.length > 0) {
+    console.warn("Discarded invalid segments from analysis:", dropped);
+  }
+  return clips;
+};
+
+// Transcribe one range of the source (absolute seconds) without running clip detection.
+// Caption times come back relative to `startTime`.
+export const transcribeRange = async (
+  file: File,
+  startTime: number,
+  endTime: number,
+  options: TranscribeOptions = {}
+): Promise<{ captions: Caption[]; warnings: string[] }> => {
+  const rawCaptions = await getAnalysisProvider().transcribe(file, { startTime, endTime }, options);
+  const result = normalizeTranscription(rawCaptions, endTime - startTime);
+  if (result.warnings.length > 0) {
+    console.warn("Repaired transcription:", result.warnings);
+  }
+  return result;
+};
+
+// Verbatim transcript of the whole source (transcript mode), in absolute seconds. The source
+// is transcribed one window at a time and the windows are joined; `onProgress` gets the
+// share of windows done while transcribing, after the upload's progress. A source of unknown
+// length, or a provider that would send the whole video for every window, goes in one request.
+export const transcribeVideo = async (file: File, { onProgress, signal }: TranscribeOptions = {}): Promise<Caption[]> => {
+  const provider = getAnalysisProvider();
+  const duration = await getVideoDuration(file).catch(() => Infinity);
+  if (!Number.isFinite(duration) || !provider.canTranscribeRange) {
+    const { captions, warnings } = normalizeTranscription(await provider.transcribe(file, undefined, { onProgress, signal }), duration);
+    if (warnings.length > 0) {
+      console.warn("Repaired transcript:", warnings);
+    }
+    return captions;
+  }
+
+  const windowCount = Math.max(1, Math.ceil(duration / TRANSCRIPT_WINDOW));
+  const transcript: Caption[] = [];
+  for (let i = 0; i < windowCount; i++) {
+    const startTime = i * TRANSCRIPT_WINDOW;
+    const endTime = Math.min(duration, startTime + TRANSCRIPT_WINDOW);
+    const windowProgress = { status: 'ANALYZING' as const, progress: (i / windowCount) * 100 };
+    signal?.throwIfAborted();
+    onProgress?.(windowProgress);
+    // Upload progress passes through (the upload is made once and reused by later windows)
+    const { captions } = await transcribeRange(file, startTime, endTime, {
+      signal,
+      onProgress: state => onProgress?.(state.status === 'UPLOADING' ? state : windowProgress)
+    });
+    transcript.push(...rebaseCaptions(captions, -startTime, duration));
+  }
+  onProgress?.({ status: 'ANALYZING', progress: 100 });
+  return transcript;
+};
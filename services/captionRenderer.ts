@@ -0,0 +1,327 @@
+import { Caption, CaptionAnimation, CaptionTemplateStyle, CustomCaptionStyle, EmphasisAnimation, SpeakerSettings, Template, VideoClip } from '../types';
+import { findActiveCaption, findActiveWordIndex, isHighlightedWord } from './captionService';
+import { getCaptionEmoji } from './enrichmentService';
+import { getSpeakerColor } from './speakerService';
+
+// Template sizes are authored for a frame whose short side is this many pixels
+export const CAPTION_REFERENCE_SIZE = 1080;
+
+const LINE_HEIGHT = 1.25;
+const TALL_LINE_HEIGHT = 1.55; // Indic scripts: vowel signs reach above the headline and below the base
+const ACTIVE_WORD_SCALE = 1.15;
+const ENTRANCE_DURATION = 0.2; // seconds
+const TYPEWRITER_CHAR_DURATION = 0.04; // seconds per character when there are no word timings
+const EMPHASIS_DURATION = 0.6; // seconds an emphasized word keeps moving after it's spoken
+const DEFAULT_BOX = { color: '#000000', opacity: 50, paddingX: 24, paddingY: 10, radius: 8 };
+
+// Hex to RGBA string
+export const hexToRgba = (hex: string, alphaPercent: number) => {
+  const cleanHex = hex.replace('#', '');
+  const r = parseInt(cleanHex.substring(0, 2), 16);
+  const g = parseInt(cleanHex.substring(2, 4), 16);
+  const b = parseInt(cleanHex.substring(4, 6), 16);
+  return `rgba(${r}, ${g}, ${b}, ${alphaPercent / 100})`;
+};
+
+// The template's style with the user's fine-tuning (font, colours, outline, position, background, motion) applied on top
+export const resolveCaptionStyle = (template: Template, customStyle?: CustomCaptionStyle): CaptionTemplateStyle => {
+  if (!customStyle) return template.style;
+  const base = template.style;
+  const outlineWidth = customStyle.outlineWidth ?? base.stroke?.width ?? 0;
+  return {
+    ...base,
+    // Keep the template's fonts as fallbacks in case the chosen one is missing
+    fontFamily: customStyle.fontFamily ? `'${customStyle.fontFamily}', ${base.fontFamily}` : base.fontFamily,
+    fontSize: customStyle.fontSize ?? base.fontSize,
+    color: customStyle.textColor,
+    highlightColor: customStyle.highlightColor ?? base.highlightColor,
+    fontWeight: customStyle.fontWeight,
+    animation: customStyle.animation ?? base.animation,
+    emphasis: customStyle.emphasis ?? base.emphasis,
+    stroke: outlineWidth > 0
+      ? { color: customStyle.outlineColor ?? base.stroke?.color ?? '#000000', width: outlineWidth }
+      : undefined,
+    position: customStyle.positionY !== undefined ? { ...base.position, y: customStyle.positionY } : base.position,
+    box: customStyle.bgOpacity > 0
+      ? { ...(base.box || DEFAULT_BOX), color: customStyle.backgroundColor, opacity: customStyle.bgOpacity }
+      : undefined
+  };
+};
+
+// CSS/canvas font shorthand, e.g. "italic 900 72px Inter, Arial, sans-serif"
+export const getCaptionFont = (style: CaptionTemplateStyle, size = style.fontSize) =>
+  `${style.italic ? 'italic ' : ''}${style.fontWeight} ${size}px ${style.fontFamily}`;
+
+// Web fonts must be loaded before drawing, or the canvas silently falls back
+export const loadCaptionFont = async (style: CaptionTemplateStyle) => {
+  try {
+    await document.fonts?.load(getCaptionFont(style));
+  } catch (err) {
+    console.warn("Caption font could not be loaded", err);
+  }
+};
+
+// Upper/lower-case caption text as the template asks
+export const applyCasing = (text: string, style: CaptionTemplateStyle) => {
+  if (style.casing === 'upper') return text.toUpperCase();
+  if (style.casing === 'lower') return text.toLowerCase();
+  return text;
+};
+
+// Hebrew, Arabic (incl. Urdu/Persian), Syriac, Thaana, N'Ko and their presentation forms
+const RTL_SCRIPT = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+// Devanagari through Sinhala: stacked vowel signs and conjuncts
+const INDIC_SCRIPT = /[\u0900-\u0DFF]/;
+
+// Text direction from the first letter, like a browser paragraph with dir="auto"
+const isRightToLeft = (text: string) => {
+  const firstLetter = text.match(/\p{L}/u)?.[0];
+  return firstLetter !== undefined && RTL_SCRIPT.test(firstLetter);
+};
+
+// User-perceived characters, so typing out Devanagari or Arabic never splits a vowel sign
+// or combining mark from its letter
+const splitGraphemes = (text: string): string[] => {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    return Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text), s => s.segment);
+  }
+  return Array.from(text);
+};
+
+interface CaptionToken {
+  text: string;
+  start?: number; // Word timing, when the caption has it
+  end?: number;
+  emphasis?: boolean;
+  emoji?: boolean; // Enrichment emoji after the last word
+}
+
+interface LaidOutWord {
+  text: string;
+  index: number; // Position in the caption's word list
+  x: number;     // Left edge within the line
+  width: number;
+}
+
+interface CaptionLine {
+  words: LaidOutWord[];
+  width: number;
+}
+
+// Greedy word wrap using the context's current font
+const layoutLines = (ctx: CanvasRenderingContext2D, words: string[], maxWidth: number): CaptionLine[] => {
+  const spaceWidth = ctx.measureText(' ').width;
+  const lines: CaptionLine[] = [];
+  let current: CaptionLine = { words: [], width: 0 };
+
+  words.forEach((text, index) => {
+    const width = ctx.measureText(text).width;
+    const x = current.words.length > 0 ? current.width + spaceWidth : 0;
+    if (current.words.length > 0 && x + width > maxWidth) {
+      lines.push(current);
+      current = { words: [{ text, index, x: 0, width }], width };
+      return;
+    }
+    current.words.push({ text, index, x, width });
+    current.width = x + width;
+  });
+  if (current.words.length > 0) lines.push(current);
+  return lines;
+};
+
+// Opacity, scale and vertical offset (in font sizes) while a caption enters
+const getEntrance = (animation: CaptionAnimation, elapsed: number) => {
+  const t = Math.max(0, Math.min(1, elapsed / ENTRANCE_DURATION));
+  switch (animation) {
+    case 'fade':
+      return { alpha: t, scale: 1, offsetY: 0 };
+    case 'pop': {
+      // Ease-out-back: overshoots slightly, then settles at 1
+      const eased = 1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2);
+      return { alpha: Math.min(1, t * 2), scale: 0.7 + 0.3 * eased, offsetY: 0 };
+    }
+    case 'slide-up':
+      return { alpha: t, scale: 1, offsetY: (1 - t) * (1 - t) * 0.6 };
+    default:
+      return { alpha: 1, scale: 1, offsetY: 0 };
+  }
+};
+
+// How many characters (graphemes) of each word are showing. With word timings each word types
+// out while it's spoken; otherwise the whole caption types out over its first part.
+const getTypewriterProgress = (tokens: CaptionToken[], caption: Caption, relativeTime: number) => {
+  const timed = tokens.every(t => t.start !== undefined && t.end !== undefined);
+  if (timed) {
+    return tokens.map(({ text, start = 0, end = 0 }) => {
+      if (relativeTime < start) return 0;
+      const length = splitGraphemes(text).length;
+      const t = end > start ? (relativeTime - start) / (end - start) : 1;
+      return Math.max(1, Math.min(length, Math.ceil(length * t)));
+    });
+  }
+
+  const lengths = tokens.map(t => splitGraphemes(t.text).length);
+  const totalChars = lengths.reduce((sum, length) => sum + length, 0);
+  const duration = Math.min((caption.end - caption.start) * 0.6, totalChars * TYPEWRITER_CHAR_DURATION);
+  let remaining = duration > 0 ? Math.ceil(totalChars * (relativeTime - caption.start) / duration) : totalChars;
+  return lengths.map(length => {
+    const shown = Math.max(0, Math.min(length, remaining));
+    remaining -= length;
+    return shown;
+  });
+};
+
+// Extra motion for an emphasized word, decaying over EMPHASIS_DURATION after it starts.
+// Offsets are in font sizes, rotation in radians.
+const getEmphasis = (effect: EmphasisAnimation, elapsed: number) => {
+  if (effect === 'none' || elapsed < 0 || elapsed > EMPHASIS_DURATION) return { offsetX: 0, offsetY: 0, rotation: 0 };
+  const decay = 1 - elapsed / EMPHASIS_DURATION;
+  if (effect === 'bounce') {
+    return { offsetX: 0, offsetY: -Math.abs(Math.sin(elapsed * Math.PI / 0.3)) * 0.25 * decay, rotation: 0 };
+  }
+  return { offsetX: Math.sin(elapsed * 50) * 0.05 * decay, offsetY: 0, rotation: Math.sin(elapsed * 50 + 1) * 0.07 * decay };
+};
+
+const drawWord = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, style: CaptionTemplateStyle, color: string, outline = true) => {
+  if (style.stroke && outline) ctx.strokeText(text, x, y);
+  ctx.fillStyle = color;
+  ctx.fillText(text, x, y);
+};
+
+// Draw one caption into the whole canvas. `relativeTime` is seconds into the clip and drives
+// the entrance animation, emphasis effects and the karaoke highlight. Enrichment key words are
+// drawn in the highlight colour and the emoji follows the last word. Right-to-left captions are
+// laid out from the right, and joined or stacked scripts (Arabic, Devanagari...) drop the
+// template's letter spacing, which would break their shaping. `scale` defaults to the canvas
+// size relative to CAPTION_REFERENCE_SIZE.
+export const drawCaption = (
+  ctx: CanvasRenderingContext2D,
+  caption: Caption,
+  relativeTime: number,
+  style: CaptionTemplateStyle,
+  scale = Math.min(ctx.canvas.width, ctx.canvas.height) / CAPTION_REFERENCE_SIZE
+) => {
+  // With word timings, the line is rebuilt from the words so highlight positions line up
+  const tokens: CaptionToken[] = (caption.words && caption.words.length > 0
+    ? caption.words.map(w => ({ text: w.text, start: w.start, end: w.end, emphasis: w.emphasis }))
+    : caption.text.split(/\s+/).map(text => ({ text })))
+    .filter(t => t.text)
+    .map(t => ({ ...t, text: applyCasing(t.text, style) }));
+  if (tokens.length === 0) return;
+  const emoji = getCaptionEmoji(caption);
+  if (emoji) {
+    const last = tokens[tokens.length - 1];
+    tokens.push({ text: emoji, start: last.start, end: last.end, emoji: true });
+  }
+  const activeIndex = findActiveWordIndex(caption, relativeTime);
+  const rtl = isRightToLeft(caption.text);
+  const indic = INDIC_SCRIPT.test(caption.text);
+  const visibleChars = style.animation === 'typewriter' ? getTypewriterProgress(tokens, caption, relativeTime) : null;
+
+  const w = ctx.canvas.width / scale;
+  const h = ctx.canvas.height / scale;
+
+  ctx.save();
+  ctx.scale(scale, scale);
+  ctx.font = getCaptionFont(style);
+  if ('letterSpacing' in ctx) ctx.letterSpacing = `${rtl || indic ? 0 : style.letterSpacing}px`;
+  // Words are placed one by one, so direction only orders punctuation within a word. A
+  // right-to-left word is anchored at its right edge so it types out from there.
+  ctx.direction = rtl ? 'rtl' : 'ltr';
+  ctx.textAlign = rtl ? 'right' : 'left';
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+  if (style.stroke) {
+    ctx.strokeStyle = style.stroke.color;
+    ctx.lineWidth = style.stroke.width;
+  }
+
+  // Layout always uses the full text, so typed-out words don't shift while they appear
+  const padding = style.box ? style.box.paddingX * 2 : 0;
+  const lines = layoutLines(ctx, tokens.map(t => t.text), style.maxWidth * w - padding);
+  const lineHeight = style.fontSize * (indic ? TALL_LINE_HEIGHT : LINE_HEIGHT);
+  const blockWidth = Math.max(...lines.map(l => l.width));
+  const blockHeight = lines.length * lineHeight;
+
+  const entrance = getEntrance(style.animation, relativeTime - caption.start);
+  ctx.globalAlpha = entrance.alpha;
+  ctx.translate(style.position.x * w, style.position.y * h + entrance.offsetY * style.fontSize);
+  ctx.rotate((style.rotation * Math.PI) / 180);
+  ctx.scale(entrance.scale, entrance.scale);
+
+  const setShadow = (on: boolean) => {
+    ctx.shadowColor = on && style.shadow ? style.shadow.color : 'transparent';
+    ctx.shadowBlur = on && style.shadow ? style.shadow.blur : 0;
+    ctx.shadowOffsetX = on && style.shadow ? style.shadow.offsetX : 0;
+    ctx.shadowOffsetY = on && style.shadow ? style.shadow.offsetY : 0;
+  };
+
+  // With a box the shadow belongs to the box; otherwise it's a drop shadow / glow on the text
+  if (style.box) {
+    const { color, opacity, paddingX, paddingY, radius } = style.box;
+    const boxHeight = blockHeight + paddingY * 2;
+    setShadow(true);
+    ctx.fillStyle = hexToRgba(color, opacity);
+    ctx.beginPath();
+    ctx.roundRect(-blockWidth / 2 - paddingX, -boxHeight / 2, blockWidth + paddingX * 2, boxHeight, Math.min(radius, boxHeight / 2));
+    ctx.fill();
+  }
+
+  const positioned = lines.flatMap((line, i) => {
+    const y = -blockHeight / 2 + lineHeight * (i + 0.5);
+    return line.words.map(word => {
+      const token = tokens[word.index];
+      const text = visibleChars ? splitGraphemes(word.text).slice(0, visibleChars[word.index]).join('') : word.text;
+      const emphasis = token.emphasis && token.start !== undefined
+        ? getEmphasis(style.emphasis, relativeTime - token.start)
+        : null;
+      const color = isHighlightedWord(caption, word.index) ? style.highlightColor : style.color;
+      // Right-to-left lines mirror the wrap layout: the first word sits at the right
+      const x = rtl ? line.width / 2 - word.x - word.width : -line.width / 2 + word.x;
+      return { word, text, x, y, emphasis, color, emoji: token.emoji };
+    });
+  }).filter(p => p.text);
+
+  // Each word is drawn around its own centre so emphasis and the karaoke highlight can move it
+  const drawPositioned = ({ word, text, x, y, emphasis, emoji }: typeof positioned[number], color: string, wordScale = 1) => {
+    ctx.save();
+    ctx.translate(x + word.width / 2 + (emphasis?.offsetX || 0) * style.fontSize, y + (emphasis?.offsetY || 0) * style.fontSize);
+    if (emphasis?.rotation) ctx.rotate(emphasis.rotation);
+    if (wordScale !== 1) ctx.scale(wordScale, wordScale);
+    drawWord(ctx, text, rtl ? word.width / 2 : -word.width / 2, 0, style, color, !emoji);
+    ctx.restore();
+  };
+
+  if (!style.box && style.shadow) {
+    setShadow(true);
+    positioned.forEach(p => drawPositioned(p, p.color));
+  }
+  setShadow(false);
+
+  positioned.forEach(p => {
+    if (p.word.index !== activeIndex) drawPositioned(p, p.color);
+  });
+
+  // Karaoke highlight: the spoken word in the highlight colour, slightly enlarged
+  const active = positioned.find(p => p.word.index === activeIndex);
+  if (active) drawPositioned(active, style.highlightColor, ACTIVE_WORD_SCALE);
+
+  ctx.restore();
+};
+
+// Draw whichever of the clip's captions is active at `relativeTime`. With speaker colours
+// switched on, a diarized caption's text takes its speaker's colour.
+export const drawCaptions = (
+  ctx: CanvasRenderingContext2D,
+  clip: VideoClip,
+  relativeTime: number,
+  template: Template,
+  customStyle?: CustomCaptionStyle,
+  speakers?: SpeakerSettings
+) => {
+  const caption = findActiveCaption(clip.captions, relativeTime);
+  if (!caption) return;
+  const style = resolveCaptionStyle(template, customStyle);
+  const color = caption.speaker && speakers?.colorCaptions ? getSpeakerColor(caption.speaker, speakers) : style.color;
+  drawCaption(ctx, caption, relativeTime, { ...style, color });
+};
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { Caption, CaptionEnrichment } from '../types';
+import { insertCaption, mergeWithNext, rebaseCaptions, setCaptionTiming, splitCaption, updateCaptionText } from './captionService';
+
+const enrichment = (highlights: CaptionEnrichment['highlights'], emoji?: string): CaptionEnrichment => ({
+  emoji, showEmoji: true, highlights, showHighlights: true
+});
+
+describe('setCaptionTiming', () => {
+  const captions: Caption[] = [
+    { text: 'First', start: 0, end: 1 },
+    { text: 'Two words', start: 2, end: 3, words: [{ text: 'Two', start: 2, end: 2.5 }, { text: 'words', start: 2.5, end: 3 }] },
+    { text: 'Last', start: 4, end: 5 }
+  ];
+
+  it.each([
+    ['moves the words with the caption', 1, 2.5, 3.5, 2.5, 3.5, [[2.5, 3], [3, 3.5]]],
+    ['stops a start at the previous caption', 1, 0.5, 3, 1, 3, [[2, 2.5], [2.5, 3]]],
+    ['stops an end at the next caption', 1, 2, 5, 2, 4, [[2, 2.5], [2.5, 3]]],
+    ['keeps the shortest length and clamps the words', 1, 3, 2.9, 3, 3.2, [[3, 3], [3, 3]]],
+    ['stops the last caption at the end of the clip', 2, 4, 10, 4, 6, undefined]
+  ])('%s', (_name, index, start, end, newStart, newEnd, words) => {
+    const result = setCaptionTiming(captions, index, start, end, 6);
+
+    expect(result[index]).toMatchObject({ start: newStart, end: newEnd });
+    expect(result[index].words?.map(w => [w.start, w.end])).toEqual(words);
+    expect(result.filter((_, i) => i !== index)).toEqual(captions.filter((_, i) => i !== index));
+  });
+});
+
+describe('splitCaption', () => {
+  const text = 'one two three four five';
+  const words = text.split(' ').map((word, i) => ({ text: word, start: i, end: i + 1 }));
+
+  it.each([
+    ['in proportion to the words', { text, start: 0, end: 5 }, undefined, 3],
+    ['at the middle word', { text, start: 0, end: 10, words }, undefined, 3],
+    ['at the given time', { text, start: 0, end: 5 }, 4, 4],
+    ['no closer to an edge than half the shortest caption', { text, start: 0, end: 5 }, 0.05, 0.1]
+  ])('splits %s', (_name, caption, atTime, splitTime) => {
+    const [first, second] = splitCaption([caption], 0, atTime);
+
+    expect(first).toMatchObject({ text: 'one two three', start: 0, end: splitTime });
+    expect(second).toMatchObject({ text: 'four five', start: splitTime, end: caption.end });
+  });
+
+  it('divides word timings, key words and the emoji between the halves', () => {
+    const caption: Caption = { text, start: 0, end: 5, words, speaker: 'Speaker 1', enrichment: enrichment([{ start: 2, end: 4 }], '🔥') };
+
+    const [first, second] = splitCaption([caption], 0);
+
+    expect(first.words?.map(w => w.text)).toEqual(['one', 'two', 'three']);
+    expect(second.words?.map(w => w.text)).toEqual(['four', 'five']);
+    expect(first.enrichment).toEqual(enrichment([{ start: 2, end: 3 }]));
+    expect(second.enrichment).toEqual(enrichment([{ start: 0, end: 1 }], '🔥'));
+    expect([first.speaker, second.speaker]).toEqual(['Speaker 1', 'Speaker 1']);
+  });
+
+  it('leaves a single word alone', () => {
+    const captions = [{ text: 'Hi', start: 0, end: 1 }];
+    expect(splitCaption(captions, 0)).toBe(captions);
+  });
+});
+
+describe('mergeWithNext', () => {
+  it('joins the text and moves the second caption\'s key words after the first one\'s', () => {
+    const captions: Caption[] = [
+      { text: 'Hi there', start: 0, end: 1, enrichment: enrichment([{ start: 0, end: 1 }], '👋') },
+      { text: 'big news', start: 1, end: 2, speaker: 'Speaker 2', enrichment: enrichment([{ start: 1, end: 2 }]) }
+    ];
+
+    expect(mergeWithNext(captions, 0)).toEqual([{
+      text: 'Hi there big news',
+      start: 0,
+      end: 2,
+      speaker: 'Speaker 2',
+      enrichment: enrichment([{ start: 0, end: 1 }, { start: 3, end: 4 }], '👋')
+    }]);
+  });
+});
+
+describe('insertCaption', () => {
+  const captions: Caption[] = [
+    { text: 'A', start: 1, end: 2 },
+    { text: 'B', start: 5, end: 6 }
+  ];
+
+  it.each([
+    ['for up to two seconds', 2.5, [['A', 1, 2], ['New caption', 2.5, 4.5], ['B', 5, 6]]],
+    ['up to the next caption', 3.5, [['A', 1, 2], ['New caption', 3.5, 5], ['B', 5, 6]]],
+    ['up to the end of the clip', 6.5, [['A', 1, 2], ['B', 5, 6], ['New caption', 6.5, 7]]]
+  ])('fills a gap %s', (_name, atTime, expected) => {
+    expect(insertCaption(captions, atTime, 7).map(c => [c.text, c.start, c.end])).toEqual(expected);
+  });
+
+  it.each([
+    ['over a caption', 1.5],
+    ['into a gap that is too short', 4.9]
+  ])('does nothing %s', (_name, atTime) => {
+    expect(insertCaption(captions, atTime, 7)).toBe(captions);
+  });
+});
+
+describe('rebaseCaptions', () => {
+  it('moves captions to a later start, clamping words and dropping what falls outside', () => {
+    const captions: Caption[] = [
+      { text: 'Cut off', start: 0, end: 2, words: [{ text: 'Cut', start: 0, end: 1 }, { text: 'off', start: 1, end: 2 }] },
+      { text: 'Kept', start: 3, end: 4 },
+      { text: 'Gone', start: 9, end: 10 }
+    ];
+
+    expect(rebaseCaptions(captions, 1, 8)).toEqual([
+      { text: 'Cut off', start: 0, end: 1, words: [{ text: 'Cut', start: 0, end: 0 }, { text: 'off', start: 0, end: 1 }] },
+      { text: 'Kept', start: 2, end: 3 }
+    ]);
+  });
+});
+
+describe('updateCaptionText', () => {
+  const caption: Caption = {
+    text: 'Helo world',
+    start: 0,
+    end: 1,
+    words: [{ text: 'Helo', start: 0, end: 0.5 }, { text: 'world', start: 0.5, end: 1 }],
+    enrichment: enrichment([{ start: 1, end: 2 }], '🌍')
+  };
+
+  it('keeps word timings and key words when the word count stays the same', () => {
+    expect(updateCaptionText([caption], 0, 'Hello world')).toEqual([{
+      ...caption,
+      text: 'Hello world',
+      words: [{ text: 'Hello', start: 0, end: 0.5 }, { text: 'world', start: 0.5, end: 1 }]
+    }]);
+  });
+
+  it('drops word timings and key words but keeps the emoji when words are added', () => {
+    const { words, ...rest } = caption;
+    expect(updateCaptionText([caption], 0, 'Hello big world')).toEqual([{ ...rest, text: 'Hello big world', enrichment: enrichment([], '🌍') }]);
+  });
+});
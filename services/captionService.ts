@@ -0,0 +1,204 @@
+import { Caption, CaptionEnrichment, CaptionWord } from '../types';
+
+// Shortest caption we allow when dragging or splitting (seconds)
+export const MIN_CAPTION_DURATION = 0.2;
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+// Find the caption that should be on screen at a clip-relative time
+export const findActiveCaption = (captions: Caption[], relativeTime: number): Caption | undefined => {
+  return captions.find(c => relativeTime >= c.start && relativeTime <= c.end);
+};
+
+// Index of the word being spoken at a clip-relative time. Between two words the
+// previous one stays highlighted. Returns -1 when the caption has no word timings.
+export const findActiveWordIndex = (caption: Caption, relativeTime: number): number => {
+  if (!caption.words || caption.words.length === 0) return -1;
+  let active = 0;
+  caption.words.forEach((w, i) => {
+    if (relativeTime >= w.start) active = i;
+  });
+  return active;
+};
+
+// The caption's words as drawn: from the word timings when present, otherwise from the text
+export const getCaptionWords = (caption: Caption): string[] => {
+  const words = caption.words && caption.words.length > 0 ? caption.words.map(w => w.text) : caption.text.split(/\s+/);
+  return words.filter(Boolean);
+};
+
+// Whether the word at `index` is one of the caption's enrichment key words (and they're switched on)
+export const isHighlightedWord = (caption: Caption, index: number): boolean => {
+  const enrichment = caption.enrichment;
+  if (!enrichment?.showHighlights) return false;
+  return enrichment.highlights.some(range => index >= range.start && index < range.end);
+};
+
+// Key word ranges for words [from, to), re-indexed from 0. Used when splitting and merging.
+const sliceEnrichment = (enrichment: CaptionEnrichment | undefined, from: number, to: number, keepEmoji: boolean): CaptionEnrichment | undefined => {
+  if (!enrichment) return undefined;
+  const highlights = enrichment.highlights
+    .map(range => ({ start: Math.max(range.start, from) - from, end: Math.min(range.end, to) - from }))
+    .filter(range => range.end > range.start);
+  const emoji = keepEmoji ? enrichment.emoji : undefined;
+  if (!emoji && highlights.length === 0) return undefined;
+  return { ...enrichment, emoji, highlights };
+};
+
+// Shift word timings by `delta` and keep them inside [start, end]. Words pushed past an edge
+// are clamped to zero length rather than removed, so `words` keeps matching `text`.
+const fitWords = (words: CaptionWord[] | undefined, delta: number, start: number, end: number): CaptionWord[] | undefined => {
+  if (!words) return undefined;
+  return words.map(w => ({
+    ...w,
+    start: round3(Math.max(start, Math.min(end, w.start + delta))),
+    end: round3(Math.max(start, Math.min(end, w.end + delta)))
+  }));
+};
+
+export const sortCaptions = (captions: Caption[]): Caption[] => {
+  return [...captions].sort((a, b) => a.start - b.start);
+};
+
+// Word timings and key words survive as long as the word count doesn't change (e.g. fixing a typo),
+// otherwise they no longer line up with the text and are dropped.
+export const updateCaptionText = (captions: Caption[], index: number, text: string): Caption[] => {
+  return captions.map((c, i) => {
+    if (i !== index) return c;
+    const { words, enrichment, ...rest } = c;
+    const tokens = text.trim().split(/\s+/).filter(Boolean);
+    const sameCount = getCaptionWords(c).length === tokens.length;
+    const kept = sameCount ? enrichment : sliceEnrichment(enrichment, 0, 0, true);
+    const withEnrichment = kept ? { enrichment: kept } : {};
+    if (words && words.length === tokens.length) {
+      return { ...rest, text, words: words.map((w, j) => ({ ...w, text: tokens[j] })), ...withEnrichment };
+    }
+    return { ...rest, text, ...withEnrichment };
+  });
+};
+
+// Move a caption's start/end while keeping it inside the clip and clear of its neighbours
+export const setCaptionTiming = (
+  captions: Caption[],
+  index: number,
+  start: number,
+  end: number,
+  clipDuration: number
+): Caption[] => {
+  const prev = captions[index - 1];
+  const next = captions[index + 1];
+  const minStart = prev ? prev.end : 0;
+  const maxEnd = next ? next.start : clipDuration;
+
+  let newStart = Math.max(minStart, Math.min(start, maxEnd - MIN_CAPTION_DURATION));
+  let newEnd = Math.min(maxEnd, Math.max(end, newStart + MIN_CAPTION_DURATION));
+  newStart = round3(newStart);
+  newEnd = round3(newEnd);
+
+  return captions.map((c, i) => {
+    if (i !== index) return c;
+    // A whole-caption move carries its words along, a resize only clamps them
+    const moved = Math.abs((newStart - c.start) - (newEnd - c.end)) < 0.001;
+    const words = fitWords(c.words, moved ? newStart - c.start : 0, newStart, newEnd);
+    return { ...c, start: newStart, end: newEnd, ...(words ? { words } : {}) };
+  });
+};
+
+// Split a caption in two. The text is divided at the middle word and the time
+// at that word's start if word timings exist, otherwise proportionally to the
+// number of words on each side (or at `atTime` if given).
+export const splitCaption = (captions: Caption[], index: number, atTime?: number): Caption[] => {
+  const caption = captions[index];
+  if (!caption) return captions;
+
+  const words = caption.text.trim().split(/\s+/);
+  if (words.length < 2) return captions;
+
+  const splitWord = Math.ceil(words.length / 2);
+  const duration = caption.end - caption.start;
+  const timedWords = caption.words && caption.words.length === words.length ? caption.words : undefined;
+  let splitTime = atTime ?? (timedWords ? timedWords[splitWord].start : caption.start + duration * (splitWord / words.length));
+  splitTime = Math.max(caption.start + MIN_CAPTION_DURATION / 2, Math.min(splitTime, caption.end - MIN_CAPTION_DURATION / 2));
+  splitTime = round3(splitTime);
+
+  const first: Caption = { text: words.slice(0, splitWord).join(' '), start: caption.start, end: splitTime };
+  const second: Caption = { text: words.slice(splitWord).join(' '), start: splitTime, end: caption.end };
+  if (timedWords) {
+    first.words = fitWords(timedWords.slice(0, splitWord), 0, first.start, first.end);
+    second.words = fitWords(timedWords.slice(splitWord), 0, second.start, second.end);
+  }
+  // The emoji stays with the end of the sentence
+  const firstEnrichment = sliceEnrichment(caption.enrichment, 0, splitWord, false);
+  const secondEnrichment = sliceEnrichment(caption.enrichment, splitWord, words.length, true);
+  if (firstEnrichment) first.enrichment = firstEnrichment;
+  if (secondEnrichment) second.enrichment = secondEnrichment;
+  if (caption.speaker) first.speaker = second.speaker = caption.speaker;
+
+  return [...captions.slice(0, index), first, second, ...captions.slice(index + 1)];
+};
+
+// Merge a caption with the one that follows it
+export const mergeWithNext = (captions: Caption[], index: number): Caption[] => {
+  const caption = captions[index];
+  const next = captions[index + 1];
+  if (!caption || !next) return captions;
+
+  const merged: Caption = {
+    text: `${caption.text.trim()} ${next.text.trim()}`.trim(),
+    start: caption.start,
+    end: next.end
+  };
+  if (caption.words && next.words) {
+    merged.words = [...caption.words, ...next.words];
+  }
+  // Merging across a change of speaker keeps the first one
+  const speaker = caption.speaker ?? next.speaker;
+  if (speaker) merged.speaker = speaker;
+  if (caption.enrichment || next.enrichment) {
+    const offset = getCaptionWords(caption).length;
+    const base = next.enrichment || caption.enrichment!;
+    merged.enrichment = {
+      ...base,
+      emoji: next.enrichment?.emoji ?? caption.enrichment?.emoji,
+      highlights: [
+        ...(caption.enrichment?.highlights || []),
+        ...(next.enrichment?.highlights || []).map(range => ({ start: range.start + offset, end: range.end + offset }))
+      ]
+    };
+  }
+
+  return [...captions.slice(0, index), merged, ...captions.slice(index + 2)];
+};
+
+export const removeCaption = (captions: Caption[], index: number): Caption[] => {
+  return captions.filter((_, i) => i !== index);
+};
+
+// Insert an empty caption at the given time, fitted into the gap it lands in.
+// Returns the original list if there is no room.
+export const insertCaption = (captions: Caption[], atTime: number, clipDuration: number): Caption[] => {
+  const sorted = sortCaptions(captions);
+  if (findActiveCaption(sorted, atTime)) return captions;
+
+  const next = sorted.find(c => c.start > atTime);
+  const gapEnd = next ? next.start : clipDuration;
+  const start = round3(Math.max(0, atTime));
+  const end = round3(Math.min(gapEnd, start + 2));
+  if (end - start < MIN_CAPTION_DURATION) return captions;
+
+  return sortCaptions([...sorted, { text: 'New caption', start, end }]);
+};
+
+// Re-express captions after the clip start moves by `startDelta` seconds
+// (positive = in-point moved later). Captions that fall outside the new
+// duration are dropped, those straddling an edge are clamped.
+export const rebaseCaptions = (captions: Caption[], startDelta: number, newDuration: number): Caption[] => {
+  return captions
+    .map(c => {
+      const start = round3(Math.max(0, c.start - startDelta));
+      const end = round3(Math.min(newDuration, c.end - startDelta));
+      const words = fitWords(c.words, -startDelta, start, end);
+      return { ...c, start, end, ...(words ? { words } : {}) };
+    })
+    .filter(c => c.end - c.start >= MIN_CAPTION_DURATION / 2);
+};
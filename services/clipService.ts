@@ -0,0 +1,26 @@
+import { VideoClip } from '../types';
+
+export const MIN_MANUAL_CLIP_LENGTH = 1; // seconds
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+// A clip picked by hand from the source, without captions yet. It's edited and exported
+// like any clip the analysis found.
+export const createManualClip = (startTime: number, endTime: number): VideoClip => {
+  const start = Math.round(Math.min(startTime, endTime) * 1000) / 1000;
+  const end = Math.round(Math.max(startTime, endTime) * 1000) / 1000;
+  return {
+    id: `manual-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    title: `Clip ${formatTime(start)} - ${formatTime(end)}`,
+    description: 'Selected manually from the source timeline.',
+    startTime: start,
+    endTime: end,
+    viralScore: 0,
+    captions: [],
+    manual: true
+  };
+};
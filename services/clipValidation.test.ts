@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { Caption, VideoClip } from '../types';
+import { normalizeClips, normalizeTranscription } from './clipValidation';
+
+const caption = (text: string, start: number, end: number): Caption => ({ text, start, end });
+
+describe('normalizeTranscription', () => {
+  it.each([
+    ['keeps valid captions as they are', [caption('a', 0, 1), caption('b', 1, 2)], [caption('a', 0, 1), caption('b', 1, 2)], []],
+    ['swaps reversed timings', [caption('a', 2, 1)], [caption('a', 1, 2)], ['Swapped reversed caption timings']],
+    ['clamps captions to the range', [caption('a', -1, 2), caption('b', 4, 7)], [caption('a', 0, 2), caption('b', 4, 5)], ['Clamped captions to the clip bounds']],
+    ['sorts captions by time', [caption('b', 2, 3), caption('a', 0, 1)], [caption('a', 0, 1), caption('b', 2, 3)], ['Sorted captions by time']],
+    ['trims overlapping captions', [caption('a', 0, 2), caption('b', 1, 3)], [caption('a', 0, 1), caption('b', 1, 3)], ['Removed overlapping captions']],
+    ['drops captions that are too short', [caption('a', 1, 1.05), caption('b', 2, 3)], [caption('b', 2, 3)], ['Dropped captions that were too short']],
+    ['drops captions without text', [caption(' ', 0, 1), { text: 'b', start: 1 }], [], ['Dropped captions with missing text or timing']],
+    ['rounds timings to milliseconds', [caption('a', 0.12345, 1.99999)], [caption('a', 0.123, 2)], []],
+    ['reports a missing caption list', 'none', [], ['Missing captions']]
+  ])('%s', (_name, input, captions, warnings) => {
+    expect(normalizeTranscription(input, 5)).toEqual({ captions, warnings });
+  });
+
+  it('keeps a usable speaker label only', () => {
+    const result = normalizeTranscription([
+      { ...caption('a', 0, 1), speaker: ' Speaker 1 ' },
+      { ...caption('b', 1, 2), speaker: ' ' },
+      { ...caption('c', 2, 3), speaker: 2 }
+    ], 5);
+
+    expect(result.captions).toEqual([{ ...caption('a', 0, 1), speaker: 'Speaker 1' }, caption('b', 1, 2), caption('c', 2, 3)]);
+  });
+
+  it.each([
+    ['lengthens zero-length words into the room around them', [['a', 1, 1], ['b', 1, 1], ['c', 1.5, 1.6], ['d', 2, 2]],
+      [['a', 1, 1.01], ['b', 1.01, 1.02], ['c', 1.5, 1.6], ['d', 1.99, 2]], ['Lengthened words that were too short']],
+    ['trims overlapping words', [['a', 1, 1.5], ['b', 1.25, 2]], [['a', 1, 1.25], ['b', 1.25, 2]], ['Removed overlapping words']],
+    ['clamps words to their caption', [['a', 0.5, 1.5], ['b', 1.5, 2.5]], [['a', 1, 1.5], ['b', 1.5, 2]], ['Clamped words to the clip bounds']]
+  ])('%s', (_name, input, words, warnings) => {
+    const toWords = (list: (string | number)[][]) => list.map(([text, start, end]) => ({ text, start, end }));
+
+    const result = normalizeTranscription([{ ...caption('a b c d', 1, 2), words: toWords(input) }], 5);
+
+    expect(result.captions[0].words).toEqual(toWords(words));
+    expect(result.warnings).toEqual(warnings);
+  });
+
+  it('keeps word emphasis only when it is set', () => {
+    const words = [{ text: 'a', start: 0, end: 0.5, emphasis: true }, { text: 'b', start: 0.5, end: 1, emphasis: false }];
+
+    expect(normalizeTranscription([{ ...caption('a b', 0, 1), words }], 5).captions[0].words).toEqual([
+      { text: 'a', start: 0, end: 0.5, emphasis: true },
+      { text: 'b', start: 0.5, end: 1 }
+    ]);
+  });
+});
+
+describe('normalizeClips', () => {
+  const raw = (fields: Partial<VideoClip>): VideoClip => ({
+    id: '1', title: 'Clip', description: 'About it', viralScore: 80, startTime: 10, endTime: 40, captions: [caption('Hello', 0, 1)], ...fields
+  });
+
+  it.each([
+    ['keeps a valid clip', {}, 10, 40, [caption('Hello', 0, 1)], []],
+    ['shortens a long clip and drops captions after its new end', { endTime: 80, captions: [caption('Hello', 0, 1), caption('Late', 55, 56)] },
+      10, 60, [caption('Hello', 0, 1)], ['Shortened the segment to 50s']],
+    ['extends a short clip backwards at the end of the video', { startTime: 95, endTime: 100 },
+      85, 100, [caption('Hello', 10, 11)], ['Extended the segment to 15s']],
+    ['clamps a clip to the video and moves its captions with the start', { startTime: -5, endTime: 20, captions: [caption('Hello', 6, 7)] },
+      0, 20, [caption('Hello', 1, 2)], ['Clamped the segment to the video length']],
+    ['swaps reversed start and end times', { startTime: 40, endTime: 10 }, 10, 40, [caption('Hello', 0, 1)], ['Swapped reversed start/end times']]
+  ])('%s', (_name, fields, startTime, endTime, captions, warnings) => {
+    const { clips, dropped } = normalizeClips([raw(fields)], 100);
+
+    expect(dropped).toEqual([]);
+    expect(clips[0]).toMatchObject({ startTime, endTime, captions, warnings });
+  });
+
+  it.each([
+    ['a missing score', undefined, 0, ['Missing viral score']],
+    ['a score above 100', 150, 100, ['Clamped viral score to 0-100']],
+    ['a fractional score', 72.6, 73, []]
+  ])('repairs %s', (_name, viralScore, expected, warnings) => {
+    const { clips } = normalizeClips([raw({ viralScore: viralScore as number })], 100);
+
+    expect(clips[0]).toMatchObject({ viralScore: expected, warnings });
+  });
+
+  it('drops clips it cannot place in the video', () => {
+    const { clips, dropped } = normalizeClips([
+      raw({ title: 'Late', startTime: 120, endTime: 140 }),
+      raw({ title: '', startTime: undefined as unknown as number }),
+      raw({ title: 'Empty', segments: [{ startTime: 10, endTime: 10.5 }] })
+    ], 100);
+
+    expect(clips).toEqual([]);
+    expect(dropped).toEqual([
+      '"Late": starts after the end of the video',
+      'Segment 2: missing start/end time',
+      '"Empty": none of its segments are usable'
+    ]);
+  });
+
+  it('joins the usable segments of a supercut and moves their captions onto one timeline', () => {
+    const segments = [
+      { startTime: 10, endTime: 20, captions: [caption('First', 1, 2)] },
+      { startTime: 50, endTime: 50.5 },
+      { startTime: 60, endTime: 70, captions: [caption('Second', 0, 1)] }
+    ];
+
+    const { clips } = normalizeClips([raw({ segments } as Partial<VideoClip>)], 100);
+
+    expect(clips[0]).toMatchObject({
+      startTime: 10,
+      endTime: 70,
+      segments: [{ startTime: 10, endTime: 20 }, { startTime: 60, endTime: 70 }],
+      captions: [caption('First', 1, 2), caption('Second', 10, 11)],
+      warnings: ['Dropped supercut segments that were too short']
+    });
+  });
+
+  it('makes a supercut with one usable segment a plain clip', () => {
+    const { clips } = normalizeClips([raw({ segments: [{ startTime: 30, endTime: 50 }, { startTime: 200, endTime: 210 }] })], 100);
+
+    expect(clips[0]).toMatchObject({ startTime: 30, endTime: 50, captions: [caption('Hello', 0, 1)] });
+    expect(clips[0].segments).toBeUndefined();
+  });
+});
@@ -0,0 +1,280 @@
+import { Caption, CaptionWord, ClipSegment, VideoClip } from '../types';
+import { MIN_CAPTION_DURATION, rebaseCaptions } from './captionService';
+
+// Same bounds the analysis prompt asks for
+export const MIN_CLIP_DURATION = 15;
+export const MAX_CLIP_DURATION = 50;
+// Shortest source range kept in a supercut
+const MIN_SEGMENT_DURATION = 1;
+// Words shorter than this (e.g. zero-length ones from the model) are lengthened
+const MIN_WORD_DURATION = 0.01;
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Sort, clamp to [min, max], fix reversed ranges and remove overlaps from timed items
+const normalizeTimings = <T extends { text: string; start: number; end: number }>(
+  items: T[],
+  min: number,
+  max: number,
+  minDuration: number,
+  fixes: Set<string>,
+  label: string
+): T[] => {
+  const valid = items.filter(item => {
+    const ok = item && typeof item.text === 'string' && item.text.trim().length > 0 && isFiniteNumber(item.start) && isFiniteNumber(item.end);
+    if (!ok) fixes.add(`Dropped ${label}s with missing text or timing`);
+    return ok;
+  });
+
+  const fixed = valid.map(item => {
+    let { start, end } = item;
+    if (end < start) {
+      [start, end] = [end, start];
+      fixes.add(`Swapped reversed ${label} timings`);
+    }
+    if (start < min || end > max) {
+      fixes.add(`Clamped ${label}s to the clip bounds`);
+    }
+    return { ...item, start: round3(Math.max(min, Math.min(max, start))), end: round3(Math.max(min, Math.min(max, end))) };
+  });
+
+  const sorted = [...fixed].sort((a, b) => a.start - b.start);
+  if (sorted.some((item, i) => item !== fixed[i])) fixes.add(`Sorted ${label}s by time`);
+
+  const result: T[] = [];
+  for (const item of sorted) {
+    const prev = result[result.length - 1];
+    if (prev && item.start < prev.end) {
+      fixes.add(`Removed overlapping ${label}s`);
+      // Trim the earlier item back to where this one starts
+      prev.end = item.start;
+      if (prev.end - prev.start < minDuration) result.pop();
+    }
+    if (item.end - item.start < minDuration) {
+      fixes.add(`Dropped ${label}s that were too short`);
+      continue;
+    }
+    result.push({ ...item });
+  }
+  return result;
+};
+
+// Words are checked like captions, but a word that is too short is lengthened into the room
+// around it instead of dropped, so `words` keeps matching `text` for karaoke highlighting and
+// jump cuts
+const normalizeWords = (words: CaptionWord[], start: number, end: number, fixes: Set<string>): CaptionWord[] => {
+  const timed = normalizeTimings(words, start, end, 0, fixes, 'word');
+  if (timed.every(w => w.end - w.start >= MIN_WORD_DURATION)) return timed;
+  fixes.add('Lengthened words that were too short');
+
+  // Forwards: each word gets the minimum length, after the word before it
+  let cursor = start;
+  const lengthened = timed.map(w => {
+    const wordStart = Math.max(w.start, cursor);
+    cursor = Math.max(w.end, wordStart + MIN_WORD_DURATION);
+    return { ...w, start: wordStart, end: cursor };
+  });
+  // Backwards: pull the words that ran past the end of the caption back inside it
+  let limit = end;
+  for (let i = lengthened.length - 1; i >= 0; i--) {
+    const w = lengthened[i];
+    w.end = Math.max(start, Math.min(w.end, limit));
+    w.start = Math.max(start, Math.min(w.start, w.end - MIN_WORD_DURATION));
+    limit = w.start;
+  }
+  return lengthened.map(w => ({ ...w, start: round3(w.start), end: round3(w.end) }));
+};
+
+const normalizeCaptions = (captions: unknown, clipDuration: number, fixes: Set<string>): Caption[] => {
+  if (!Array.isArray(captions)) {
+    fixes.add('Missing captions');
+    return [];
+  }
+
+  return normalizeTimings(captions as Caption[], 0, clipDuration, MIN_CAPTION_DURATION / 2, fixes, 'caption').map(({ speaker, ...rest }) => {
+    // The diarization label is kept only when it's usable text
+    const caption: Caption = typeof speaker === 'string' && speaker.trim() ? { ...rest, speaker: speaker.trim() } : rest;
+    if (!caption.words) return caption;
+    if (!Array.isArray(caption.words)) {
+      const { words, ...rest } = caption;
+      return rest;
+    }
+    const words = normalizeWords(caption.words as CaptionWord[], caption.start, caption.end, fixes)
+      .map(({ emphasis, ...word }) => (emphasis === true ? { ...word, emphasis } : word));
+    return { ...caption, words };
+  });
+};
+
+// Validate captions transcribed for a range of `duration` seconds. Repairs are returned as
+// warnings, like a clip's.
+export const normalizeTranscription = (captions: unknown, duration: number): { captions: Caption[]; warnings: string[] } => {
+  const fixes = new Set<string>();
+  const result = normalizeCaptions(captions, duration, fixes);
+  return { captions: result, warnings: Array.from(fixes) };
+};
+
+// Fit the clip into [0, videoDuration] and the 15-50s window, returning the new range
+const normalizeRange = (start: number, end: number, videoDuration: number, fixes: Set<string>) => {
+  if (end < start) {
+    [start, end] = [end, start];
+    fixes.add('Swapped reversed start/end times');
+  }
+  if (start < 0 || end > videoDuration) {
+    fixes.add('Clamped the segment to the video length');
+    start = Math.max(0, start);
+    end = Math.min(videoDuration, end);
+  }
+
+  const length = end - start;
+  if (length > MAX_CLIP_DURATION) {
+    end = start + MAX_CLIP_DURATION;
+    fixes.add(`Shortened the segment to ${MAX_CLIP_DURATION}s`);
+  } else if (length < MIN_CLIP_DURATION) {
+    // Grow forwards first, then backwards if we hit the end of the video
+    const target = Math.min(MIN_CLIP_DURATION, videoDuration);
+    end = Math.min(videoDuration, start + target);
+    start = Math.max(0, end - target);
+    fixes.add(`Extended the segment to ${Math.round(target)}s`);
+  }
+
+  return { start: round3(start), end: round3(end) };
+};
+
+interface RawSegment {
+  startTime: number;
+  endTime: number;
+  captions?: Caption[];
+}
+
+// Supercut ranges: clamped to the video, too-short ones dropped and the total capped at
+// MAX_CLIP_DURATION. Each range's captions (relative to its own start) are moved onto the
+// joined timeline. Returns null if no range survives.
+const normalizeSegments = (rawSegments: RawSegment[], videoDuration: number, fixes: Set<string>) => {
+  const segments: ClipSegment[] = [];
+  let captions: Caption[] = [];
+  let offset = 0;
+
+  for (const raw of rawSegments) {
+    if (!raw || !isFiniteNumber(raw.startTime) || !isFiniteNumber(raw.endTime)) {
+      fixes.add('Dropped supercut segments with missing start/end times');
+      continue;
+    }
+    let start = Math.max(0, Math.min(raw.startTime, raw.endTime));
+    let end = Math.min(videoDuration, Math.max(raw.startTime, raw.endTime));
+    if (raw.endTime < raw.startTime) fixes.add('Swapped reversed start/end times');
+    if (start !== Math.min(raw.startTime, raw.endTime) || end !== Math.max(raw.startTime, raw.endTime)) {
+      fixes.add('Clamped the segment to the video length');
+    }
+    if (offset + end - start > MAX_CLIP_DURATION) {
+      end = start + MAX_CLIP_DURATION - offset;
+      fixes.add(`Shortened the supercut to ${MAX_CLIP_DURATION}s`);
+    }
+    if (end - start < MIN_SEGMENT_DURATION) {
+      fixes.add('Dropped supercut segments that were too short');
+      continue;
+    }
+    start = round3(start);
+    end = round3(end);
+
+    const originalStart = Math.min(raw.startTime, raw.endTime);
+    const segmentCaptions = normalizeCaptions(raw.captions ?? [], Math.abs(raw.endTime - raw.startTime), fixes);
+    // Fit to the clamped segment (captions straddling a clamped edge are cut, not dropped),
+    // then move onto the joined timeline at `offset`
+    const fitted = rebaseCaptions(segmentCaptions, start - originalStart, end - start);
+    captions = [...captions, ...rebaseCaptions(fitted, -offset, offset + end - start)];
+
+    segments.push({ startTime: start, endTime: end });
+    offset += end - start;
+    if (offset >= MAX_CLIP_DURATION) break;
+  }
+
+  if (segments.length === 0) return null;
+  return { segments, captions, duration: offset };
+};
+
+export interface ClipValidationResult {
+  clips: VideoClip[];
+  dropped: string[]; // Why whole segments were discarded
+}
+
+// Validate and repair raw model output against the real video duration.
+// Every repair is recorded in the clip's `warnings` so the Editor can show it.
+export const normalizeClips = (rawClips: VideoClip[], videoDuration: number): ClipValidationResult => {
+  const clips: VideoClip[] = [];
+  const dropped: string[] = [];
+
+  rawClips.forEach((raw, index) => {
+    const label = typeof raw?.title === 'string' && raw.title.trim() ? `"${raw.title}"` : `Segment ${index + 1}`;
+    const isSupercut = Array.isArray(raw?.segments) && raw.segments.length > 0;
+    if (!raw || (!isSupercut && (!isFiniteNumber(raw.startTime) || !isFiniteNumber(raw.endTime)))) {
+      dropped.push(`${label}: missing start/end time`);
+      return;
+    }
+    if (!isSupercut && Math.min(raw.startTime, raw.endTime) >= videoDuration) {
+      dropped.push(`${label}: starts after the end of the video`);
+      return;
+    }
+
+    const fixes = new Set<string>();
+
+    let viralScore = raw.viralScore;
+    if (!isFiniteNumber(viralScore)) {
+      viralScore = 0;
+      fixes.add('Missing viral score');
+    } else if (viralScore < 0 || viralScore > 100) {
+      viralScore = Math.max(0, Math.min(100, viralScore));
+      fixes.add('Clamped viral score to 0-100');
+    }
+
+    // Raw segments still carry their own captions; they're rebuilt below for supercuts
+    const { segments: rawSegments, ...rawClip } = raw;
+    const base = {
+      ...rawClip,
+      title: typeof raw.title === 'string' && raw.title.trim() ? raw.title : `Clip ${index + 1}`,
+      description: typeof raw.description === 'string' ? raw.description : '',
+      viralScore: Math.round(viralScore)
+    };
+
+    if (isSupercut) {
+      const supercut = normalizeSegments(rawSegments as unknown as RawSegment[], videoDuration, fixes);
+      if (!supercut) {
+        dropped.push(`${label}: none of its segments are usable`);
+        return;
+      }
+      const { segments, duration } = supercut;
+      // Fall back to top-level captions on the joined timeline if the segments had none
+      const captions = supercut.captions.length > 0 ? supercut.captions : normalizeCaptions(raw.captions ?? [], duration, fixes);
+      clips.push({
+        ...base,
+        startTime: Math.min(...segments.map(s => s.startTime)),
+        endTime: Math.max(...segments.map(s => s.endTime)),
+        // A single surviving range is just a plain clip
+        ...(segments.length > 1 ? { segments } : {}),
+        captions,
+        warnings: Array.from(fixes)
+      });
+      return;
+    }
+
+    const range = normalizeRange(raw.startTime, raw.endTime, videoDuration, fixes);
+    const originalStart = Math.min(raw.startTime, raw.endTime);
+    const duration = range.end - range.start;
+
+    // Captions are relative to the segment start, so follow any change to it
+    let captions = normalizeCaptions(raw.captions, Math.max(raw.startTime, raw.endTime) - originalStart, fixes);
+    if (range.start !== originalStart || range.end - range.start !== Math.abs(raw.endTime - raw.startTime)) {
+      captions = rebaseCaptions(captions, range.start - originalStart, duration);
+    }
+
+    clips.push({
+      ...base,
+      startTime: range.start,
+      endTime: range.end,
+      captions,
+      warnings: Array.from(fixes)
+    });
+  });
+
+  return { clips, dropped };
+};
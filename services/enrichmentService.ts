@@ -0,0 +1,130 @@
+import { Caption, CaptionEnrichment, WordRange } from '../types';
+import { getCaptionWords } from './captionService';
+
+// Key word (lower case, no punctuation) -> emoji for the offline enrichment pass
+const KEYWORD_EMOJIS: Record<string, string> = {
+  money: '💰', cash: '💰', dollars: '💵', rich: '🤑', pay: '💸', paid: '💸', price: '🏷️', free: '🆓',
+  fire: '🔥', hot: '🔥', amazing: '🤩', incredible: '🤯', insane: '🤯', crazy: '🤪', mind: '🧠', brain: '🧠',
+  love: '❤️', heart: '❤️', happy: '😄', laugh: '😂', funny: '😂', sad: '😢', cry: '😭', angry: '😡',
+  win: '🏆', winner: '🏆', won: '🏆', best: '🥇', champion: '🏆', success: '🚀', growth: '📈', grow: '📈',
+  fail: '❌', failed: '❌', wrong: '❌', mistake: '⚠️', warning: '⚠️', danger: '⚠️', stop: '🛑', never: '🚫',
+  idea: '💡', secret: '🤫', tip: '💡', hack: '🛠️', learn: '📚', book: '📖', study: '📚', school: '🎓',
+  time: '⏰', fast: '⚡', quick: '⚡', speed: '⚡', slow: '🐢', wait: '⏳', today: '📅', tomorrow: '📅',
+  food: '🍔', eat: '🍽️', coffee: '☕', drink: '🥤', pizza: '🍕', workout: '💪', strong: '💪', gym: '🏋️',
+  work: '💼', job: '💼', business: '📊', boss: '😎', team: '🤝', together: '🤝', friends: '👯', family: '👨‍👩‍👧',
+  phone: '📱', computer: '💻', code: '👨‍💻', ai: '🤖', robot: '🤖', internet: '🌐', world: '🌍', travel: '✈️',
+  music: '🎵', song: '🎶', game: '🎮', movie: '🎬', video: '🎥', camera: '📷', photo: '📸', watch: '👀',
+  look: '👀', see: '👀', think: '🤔', question: '❓', why: '🤔', yes: '✅', no: '🙅', true: '✅', false: '❌',
+  goal: '🎯', target: '🎯', focus: '🎯', dream: '✨', magic: '✨', star: '⭐', sun: '☀️', rain: '🌧️'
+};
+
+// Numbers, prices and percentages are always worth colouring
+const NUMBER_PATTERN = /^[$€£]?\d[\d,.]*[%kKmMbB]?$/;
+
+const MAX_KEYWORDS_PER_CAPTION = 2;
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}$%€£.,]/gu, '').replace(/[.,]+$/, '');
+
+// Turn sorted word indices into [start, end) ranges, joining neighbours
+const toRanges = (indices: number[]): WordRange[] => {
+  const ranges: WordRange[] = [];
+  [...new Set(indices)].sort((a, b) => a - b).forEach(index => {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === index) last.end = index + 1;
+    else ranges.push({ start: index, end: index + 1 });
+  });
+  return ranges;
+};
+
+const createEnrichment = (emoji: string | undefined, highlights: WordRange[]): CaptionEnrichment | undefined => {
+  if (!emoji && highlights.length === 0) return undefined;
+  return { emoji, showEmoji: true, highlights, showHighlights: true };
+};
+
+// Replace a caption's enrichment, keeping the user's on/off choices from a previous pass
+const applyEnrichment = (caption: Caption, enrichment: CaptionEnrichment | undefined): Caption => {
+  const { enrichment: previous, ...rest } = caption;
+  if (!enrichment) return rest;
+  return {
+    ...rest,
+    enrichment: previous ? { ...enrichment, showEmoji: previous.showEmoji, showHighlights: previous.showHighlights } : enrichment
+  };
+};
+
+// Offline enrichment from the keyword dictionary; existing per-caption toggles are kept
+export const enrichCaptionsLocally = (captions: Caption[]): Caption[] => {
+  return captions.map(caption => {
+    const words = getCaptionWords(caption).map(normalizeWord);
+    const keywordIndices = words
+      .map((word, i) => (KEYWORD_EMOJIS[word] || NUMBER_PATTERN.test(word) ? i : -1))
+      .filter(i => i >= 0)
+      .slice(0, MAX_KEYWORDS_PER_CAPTION);
+    const emoji = words.map(word => KEYWORD_EMOJIS[word]).find(Boolean);
+    return applyEnrichment(caption, createEnrichment(emoji, toRanges(keywordIndices)));
+  });
+};
+
+// Prompt for the model-backed pass. Captions are numbered so answers can be matched back.
+export const buildEnrichmentPrompt = (captions: Caption[]): string => {
+  const lines = captions.map((caption, i) => `${i}: ${getCaptionWords(caption).join(' ')}`).join('\n');
+  return `
+    You are a social video editor adding finishing touches to short-form captions.
+
+    For each numbered caption below:
+    1. emoji: ONE emoji that fits the meaning of the caption, or omit it if nothing fits well.
+       Use emojis sparingly - roughly one caption in three should get one.
+    2. keywords: The 0-${MAX_KEYWORDS_PER_CAPTION} most important words to colour, copied EXACTLY as they appear in the caption.
+
+    Return an array with one object per caption that gets an emoji or keywords:
+    - index: The caption number.
+    - emoji: The emoji (optional).
+    - keywords: The key words (may be empty).
+
+    Captions:
+    ${lines}
+  `;
+};
+
+interface EnrichmentAnswer {
+  index: number;
+  emoji?: string;
+  keywords?: string[];
+}
+
+// Apply the model's JSON answer. Key words are matched back to word positions so answers
+// that paraphrase or invent words are ignored rather than highlighting the wrong thing.
+export const parseEnrichmentResponse = (captions: Caption[], text: string): Caption[] => {
+  const parsed = JSON.parse(text);
+  const answers = (Array.isArray(parsed) ? parsed : parsed?.captions) as EnrichmentAnswer[] | undefined;
+  if (!Array.isArray(answers)) throw new Error("Response did not contain a list of captions");
+
+  const byIndex = new Map(answers.filter(a => a && Number.isInteger(a.index)).map(a => [a.index, a]));
+  return captions.map((caption, i) => {
+    const answer = byIndex.get(i);
+    if (!answer) return applyEnrichment(caption, undefined);
+
+    const words = getCaptionWords(caption).map(normalizeWord);
+    const keywords = new Set((Array.isArray(answer.keywords) ? answer.keywords : [])
+      .filter((k): k is string => typeof k === 'string')
+      .flatMap(k => k.split(/\s+/))
+      .map(normalizeWord));
+    const indices = words.map((word, j) => (keywords.has(word) ? j : -1)).filter(j => j >= 0);
+    const emoji = typeof answer.emoji === 'string' && answer.emoji.trim() ? answer.emoji.trim() : undefined;
+    return applyEnrichment(caption, createEnrichment(emoji, toRanges(indices)));
+  });
+};
+
+// Switch a caption's emoji or key word colouring on or off
+export const toggleEnrichment = (captions: Caption[], index: number, part: 'showEmoji' | 'showHighlights'): Caption[] => {
+  return captions.map((c, i) => (i === index && c.enrichment ? { ...c, enrichment: { ...c.enrichment, [part]: !c.enrichment[part] } } : c));
+};
+
+// Drop every caption's enrichment
+export const clearEnrichment = (captions: Caption[]): Caption[] => {
+  return captions.map(({ enrichment, ...caption }) => caption);
+};
+
+// The emoji to draw after the caption text, if any
+export const getCaptionEmoji = (caption: Caption): string | undefined => {
+  return caption.enrichment?.showEmoji ? caption.enrichment.emoji : undefined;
+};
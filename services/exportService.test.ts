@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { VideoClip } from '../types';
+import { TEMPLATES } from '../constants';
+import { getRenderKey, RenderSettings } from './exportService';
+
+const clip: VideoClip = {
+  id: 'clip-1',
+  title: 'Mind-Blowing Fact',
+  startTime: 15,
+  endTime: 30,
+  description: 'A surprising statistic',
+  viralScore: 92,
+  captions: [{ text: 'Did you know?', start: 0, end: 2 }],
+  warnings: ['Clamped captions to the clip bounds']
+};
+
+const settings: RenderSettings = {
+  videoUrl: 'blob:source',
+  template: TEMPLATES[0],
+  customStyle: { textColor: '#ffffff', backgroundColor: '#000000', bgOpacity: 0, fontWeight: '700' },
+  output: { aspectRatio: '9:16', resolution: '1080p', fitMode: 'crop' }
+};
+
+describe('getRenderKey', () => {
+  it.each<[string, Partial<VideoClip>]>([
+    ['a new title', { title: 'Renamed' }],
+    ['dismissed warnings', { warnings: undefined }],
+    ['a new description and score', { description: 'Edited', viralScore: 10 }],
+    ['a translation that is not shown', { captionTracks: { hi: [{ text: 'क्या आप जानते हैं?', start: 0, end: 2 }] } }]
+  ])('keeps the render for %s', (_change, update) => {
+    expect(getRenderKey({ ...clip, ...update }, settings)).toBe(getRenderKey(clip, settings));
+  });
+
+  it.each<[string, Partial<VideoClip>]>([
+    ['a trim', { endTime: 29 }],
+    ['edited captions', { captions: [{ text: 'Did you know that?', start: 0, end: 2 }] }],
+    ['a crop path', { cropPath: [{ time: 0, x: 0.3, y: 0.5 }] }],
+    ['supercut segments', { segments: [{ startTime: 15, endTime: 20 }, { startTime: 40, endTime: 50 }] }]
+  ])('needs a new render after %s', (_change, update) => {
+    expect(getRenderKey({ ...clip, ...update }, settings)).not.toBe(getRenderKey(clip, settings));
+  });
+
+  it('needs a new render when the output settings change', () => {
+    expect(getRenderKey(clip, { ...settings, output: { ...settings.output, fitMode: 'blur' } })).not.toBe(getRenderKey(clip, settings));
+  });
+});
@@ -0,0 +1,497 @@
+import { Muxer, ArrayBufferTarget } from 'mp4-muxer';
+import { VideoClip, Template, CustomCaptionStyle, OutputSettings, SpeakerSettings } from '../types';
+import { DEFAULT_FPS, getOutputSize } from '../constants';
+import { abortable, decodeAudio, holdSoundtrack, sliceAudioRanges, loadVideo, seekVideo, releaseVideo, getExportBaseName } from './mediaService';
+import { drawClipFrame } from './renderService';
+import { getClipDuration, getClipSegments, isSupercut, toClipTime, toSourceTime } from './segmentService';
+import { MusicSource, MusicTrack, mixClipAudio, startMusic } from './musicService';
+import { loadCaptionFont, resolveCaptionStyle } from './captionRenderer';
+import { serializeSubtitles } from './subtitleService';
+import { createZip, ZipEntry } from './zipService';
+
+const KEYFRAME_INTERVAL = DEFAULT_FPS * 2; // one keyframe every 2 seconds
+const AUDIO_BITRATE = 128_000;
+const AUDIO_SAMPLE_RATE = 48_000; // sources are decoded straight to the rate that is encoded
+const AUDIO_BLOCK_SECONDS = 0.5;
+const MAX_ENCODE_QUEUE = 8; // frames waiting in the encoder before we pause drawing
+// A job that reports no progress for this long is considered stuck and aborted
+export const EXPORT_STALL_TIMEOUT_MS = 30_000;
+
+// H.264 High / Main / Baseline at level 5.1, which covers everything up to 4K
+const AVC_CODECS = ['avc1.640033', 'avc1.4d0033', 'avc1.420033'];
+const AUDIO_CODECS = [
+  { codec: 'mp4a.40.2', muxerCodec: 'aac' as const },
+  { codec: 'opus', muxerCodec: 'opus' as const }
+];
+
+export interface ExportOptions {
+  videoUrl: string;
+  clip: VideoClip;
+  template: Template;
+  customStyle: CustomCaptionStyle;
+  output: OutputSettings;
+  music?: MusicSource; // Background music bed, mixed under the soundtrack
+  speakers?: SpeakerSettings; // Speaker colours for diarized captions
+  onProgress?: (percent: number) => void;
+  onBusy?: (busy: boolean) => void; // Brackets long steps that report no progress (decoding audio)
+  signal?: AbortSignal;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  extension: 'mp4' | 'webm';
+}
+
+export type BatchItemStatus = 'queued' | 'rendering' | 'done' | 'failed' | 'skipped' | 'cancelled';
+
+export interface BatchItem {
+  clipId: string;
+  title: string;
+  status: BatchItemStatus;
+  progress: number;
+  error?: string;
+}
+
+// Everything besides the clip that decides what a rendered file looks like
+export type RenderSettings = Pick<ExportOptions, 'videoUrl' | 'template' | 'customStyle' | 'output' | 'music' | 'speakers'>;
+
+export interface BatchExportOptions extends Omit<ExportOptions, 'clip' | 'onProgress'> {
+  clips: VideoClip[];
+  rendered: Map<string, ExportResult>; // Finished renders by render key; kept between runs so a batch can resume
+  canExport: () => boolean; // Checked before each clip (usage limit)
+  onExported: () => void;   // Called once per successfully rendered clip
+  onUpdate: (items: BatchItem[]) => void;
+}
+
+export interface ExportJob<T> {
+  result: Promise<T>;
+  cancel: () => void;
+}
+
+// Run an export with an abort signal that fires on cancel() or when the task stops
+// reporting activity for EXPORT_STALL_TIMEOUT_MS. While the task says it's busy (a long
+// decode of a big source) the timeout is paused; it restarts when the task is done.
+export const startExportJob = <T>(
+  task: (signal: AbortSignal, onActivity: () => void, setBusy: (busy: boolean) => void) => Promise<T>
+): ExportJob<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let busy = false;
+  const onActivity = () => {
+    clearTimeout(timer);
+    if (busy) return;
+    timer = setTimeout(() => {
+      controller.abort(new Error(`Export timed out (no progress for ${EXPORT_STALL_TIMEOUT_MS / 1000} seconds)`));
+    }, EXPORT_STALL_TIMEOUT_MS);
+  };
+  const setBusy = (value: boolean) => {
+    busy = value;
+    onActivity();
+  };
+
+  onActivity();
+  const result = task(controller.signal, onActivity, setBusy).finally(() => clearTimeout(timer));
+  return { result, cancel: () => controller.abort() };
+};
+
+// True when an export stopped because the user cancelled it (as opposed to failing)
+export const isExportCancelled = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+export const getExportErrorMessage = (err: unknown) => (err instanceof Error ? err.message : "Unknown error");
+
+// WebCodecs lets us encode frames as fast as we can draw them instead of in real time
+export const isWebCodecsSupported = () =>
+  typeof window !== 'undefined' && 'VideoEncoder' in window && 'AudioEncoder' in window && 'VideoFrame' in window;
+
+const pickVideoConfig = async (width: number, height: number): Promise<VideoEncoderConfig | null> => {
+  for (const codec of AVC_CODECS) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width,
+      height,
+      framerate: DEFAULT_FPS,
+      bitrate: Math.round(width * height * DEFAULT_FPS * 0.1),
+      avc: { format: 'avc' }
+    };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return config;
+  }
+  return null;
+};
+
+const pickAudioConfig = async (sampleRate: number, numberOfChannels: number) => {
+  for (const { codec, muxerCodec } of AUDIO_CODECS) {
+    const config: AudioEncoderConfig = { codec, sampleRate, numberOfChannels, bitrate: AUDIO_BITRATE };
+    const { supported } = await AudioEncoder.isConfigSupported(config).catch(() => ({ supported: false }));
+    if (supported) return { config, muxerCodec };
+  }
+  return null;
+};
+
+// Run a step that can't report progress with the stall timeout paused
+const whileBusy = async <T>(onBusy: ExportOptions['onBusy'], step: () => Promise<T>): Promise<T> => {
+  onBusy?.(true);
+  try {
+    return await step();
+  } finally {
+    onBusy?.(false);
+  }
+};
+
+// Decode the music bed of an export, if it has one
+const loadMusicTrack = async (music: MusicSource | undefined, signal?: AbortSignal): Promise<MusicTrack | null> => {
+  if (!music) return null;
+  const buffer = await abortable(decodeAudio(music.url), signal);
+  return { buffer, settings: music.settings };
+};
+
+// Feed a clip's soundtrack (already on the clip's timeline) to the encoder in small planar blocks
+const encodeAudio = (encoder: AudioEncoder, buffer: AudioBuffer, numberOfChannels: number) => {
+  const rate = buffer.sampleRate;
+  const blockSize = Math.round(AUDIO_BLOCK_SECONDS * rate);
+
+  for (let offset = 0; offset < buffer.length; offset += blockSize) {
+    const frames = Math.min(blockSize, buffer.length - offset);
+    const data = new Float32Array(frames * numberOfChannels);
+    for (let c = 0; c < numberOfChannels; c++) {
+      data.set(buffer.getChannelData(c).subarray(offset, offset + frames), c * frames);
+    }
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate: rate,
+      numberOfFrames: frames,
+      numberOfChannels,
+      timestamp: Math.round((offset / rate) * 1_000_000),
+      data
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+};
+
+// Seek frame by frame through a muted copy of the source, draw each frame through the
+// shared compositor and encode H.264 (+ AAC) into an MP4. Runs silently, faster than real time.
+const renderWithWebCodecs = async ({ videoUrl, clip, template, customStyle, output, music, speakers, onProgress, onBusy, signal }: ExportOptions): Promise<ExportResult> => {
+  const { width, height } = getOutputSize(output);
+  const videoConfig = await pickVideoConfig(width, height);
+  if (!videoConfig) throw new Error("H.264 encoding is not supported in this browser");
+
+  const audioBuffer = await whileBusy(onBusy, async () => {
+    // Only the clip's ranges of the source audio are kept (segments joined). The source decode
+    // is shared with the rest of a batch. A source without a soundtrack still exports, just silently.
+    const source = holdSoundtrack(videoUrl, AUDIO_SAMPLE_RATE);
+    const soundtrack = await abortable(source.buffer, signal)
+      .then(full => sliceAudioRanges(full, getClipSegments(clip)))
+      .catch(err => {
+        if (signal?.aborted) throw err;
+        console.warn("No audio track could be decoded, exporting without sound", err);
+        return null;
+      })
+      .finally(source.release);
+    // With music, the soundtrack is mixed offline first so the file sounds like the preview
+    const musicTrack = await loadMusicTrack(music, signal);
+    return musicTrack ? abortable(mixClipAudio(soundtrack, musicTrack, clip), signal) : soundtrack;
+  });
+  const numberOfChannels = audioBuffer ? Math.min(2, audioBuffer.numberOfChannels) : 0;
+  const audio = audioBuffer ? await pickAudioConfig(audioBuffer.sampleRate, numberOfChannels) : null;
+  if (audioBuffer && !audio) console.warn("No supported audio encoder, exporting without sound");
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: 'avc', width, height, frameRate: DEFAULT_FPS },
+    ...(audio && audioBuffer ? { audio: { codec: audio.muxerCodec, numberOfChannels, sampleRate: audioBuffer.sampleRate } } : {}),
+    fastStart: 'in-memory',
+    firstTimestampBehavior: 'offset'
+  });
+
+  let encodeError: Error | null = null;
+  const onError = (err: Error) => { encodeError = encodeError || err; };
+  let videoEncoder: VideoEncoder | null = null;
+  let audioEncoder: AudioEncoder | null = null;
+  const videoLoad = loadVideo(videoUrl);
+  let video: HTMLVideoElement | null = null;
+
+  try {
+    video = await abortable(videoLoad, signal);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not available");
+
+    const encoder = new VideoEncoder({ output: (chunk, meta) => muxer.addVideoChunk(chunk, meta), error: onError });
+    videoEncoder = encoder;
+    encoder.configure(videoConfig);
+    if (audio && audioBuffer) {
+      audioEncoder = new AudioEncoder({ output: (chunk, meta) => muxer.addAudioChunk(chunk, meta), error: onError });
+      audioEncoder.configure(audio.config);
+      encodeAudio(audioEncoder, audioBuffer, numberOfChannels);
+    }
+
+    const duration = getClipDuration(clip);
+    const frameCount = Math.max(1, Math.round(duration * DEFAULT_FPS));
+    const frameDuration = Math.round(1_000_000 / DEFAULT_FPS);
+
+    for (let i = 0; i < frameCount; i++) {
+      signal?.throwIfAborted();
+      if (encodeError) throw encodeError;
+      const relativeTime = i / DEFAULT_FPS;
+      await seekVideo(video, toSourceTime(clip, relativeTime), signal);
+      drawClipFrame(ctx, video, clip, relativeTime, template, customStyle, output.fitMode, speakers);
+
+      const frame = new VideoFrame(canvas, { timestamp: i * frameDuration, duration: frameDuration });
+      encoder.encode(frame, { keyFrame: i % KEYFRAME_INTERVAL === 0 });
+      frame.close();
+
+      // Don't let encoded frames pile up in memory
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await abortable(new Promise(resolve => encoder.addEventListener('dequeue', resolve, { once: true })), signal);
+      }
+      onProgress?.(((i + 1) / frameCount) * 100);
+    }
+
+    await abortable(Promise.all([encoder.flush(), audioEncoder?.flush()]), signal);
+    if (encodeError) throw encodeError;
+
+    muxer.finalize();
+    return { blob: new Blob([muxer.target.buffer], { type: 'video/mp4' }), extension: 'mp4' };
+  } finally {
+    if (videoEncoder && videoEncoder.state !== 'closed') videoEncoder.close();
+    if (audioEncoder && audioEncoder.state !== 'closed') audioEncoder.close();
+    if (video) releaseVideo(video);
+    // Aborted while still loading: release it once it arrives
+    else videoLoad.then(releaseVideo, () => {});
+  }
+};
+
+// Fallback: play the clip in real time and record the canvas with MediaRecorder (VP9 WebM).
+// The audio has to play out loud so it stays in sync with the recording.
+const renderWithMediaRecorder = async ({ videoUrl, clip, template, customStyle, output, music, speakers, onProgress, onBusy, signal }: ExportOptions): Promise<ExportResult> => {
+  signal?.throwIfAborted();
+  const { width, height } = getOutputSize(output);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+
+  // Create a detached video element for rendering
+  const exportVid = document.createElement('video');
+  exportVid.src = videoUrl;
+  exportVid.crossOrigin = "anonymous";
+  exportVid.muted = false; // We want audio
+  exportVid.playsInline = true;
+
+  let actx: AudioContext | null = null;
+  let recorder: MediaRecorder | null = null;
+  let frameRequest = 0;
+
+  try {
+    // Load metadata
+    await abortable(new Promise((resolve, reject) => {
+      exportVid.onloadedmetadata = resolve;
+      exportVid.onerror = () => reject(new Error("Failed to load video"));
+    }), signal);
+    const musicTrack = await whileBusy(onBusy, () => loadMusicTrack(music, signal));
+
+    // Setup Audio Context for mixing
+    const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+    actx = new AudioContext();
+    const source = actx.createMediaElementSource(exportVid);
+    const dest = actx.createMediaStreamDestination();
+
+    source.connect(dest);
+    source.connect(actx.destination); // Let user hear the export process
+
+    // Create stream from canvas + audio
+    const stream = canvas.captureStream(DEFAULT_FPS);
+    if (dest.stream.getAudioTracks().length > 0) {
+      stream.addTrack(dest.stream.getAudioTracks()[0]);
+    }
+
+    const activeRecorder = new MediaRecorder(stream, {
+      mimeType: 'video/webm;codecs=vp9'
+    });
+    recorder = activeRecorder;
+
+    const chunks: Blob[] = [];
+    activeRecorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+
+    const recording = new Promise<ExportResult>((resolve, reject) => {
+      activeRecorder.onstop = () => resolve({ blob: new Blob(chunks, { type: 'video/webm' }), extension: 'webm' });
+      activeRecorder.onerror = () => reject(new Error("Recording failed"));
+
+      const segments = getClipSegments(clip);
+      const duration = getClipDuration(clip);
+      let segmentIndex = 0;
+
+      // Render Loop
+      const renderFrame = () => {
+        // Next segment of a supercut, or finished
+        if (exportVid.currentTime >= segments[segmentIndex].endTime && segmentIndex < segments.length - 1) {
+          segmentIndex++;
+          exportVid.currentTime = segments[segmentIndex].startTime;
+        } else if (exportVid.paused || exportVid.ended || exportVid.currentTime >= segments[segmentIndex].endTime) {
+          activeRecorder.stop();
+          exportVid.pause();
+          return;
+        }
+
+        const relativeTime = toClipTime(clip, exportVid.currentTime, segmentIndex);
+        onProgress?.(Math.min((relativeTime / duration) * 100, 100));
+        drawClipFrame(ctx, exportVid, clip, relativeTime, template, customStyle, output.fitMode, speakers);
+
+        frameRequest = requestAnimationFrame(renderFrame);
+      };
+
+      // Prepare Video
+      exportVid.currentTime = segments[0].startTime;
+      activeRecorder.start();
+      exportVid.play().then(() => {
+        if (musicTrack && actx) startMusic(actx, [dest, actx.destination], musicTrack, clip, 0);
+        renderFrame();
+      }, reject);
+    });
+
+    return await abortable(recording, signal);
+  } finally {
+    cancelAnimationFrame(frameRequest);
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    releaseVideo(exportVid);
+    actx?.close();
+  }
+};
+
+// Render a clip to a video file, preferring the offline WebCodecs path
+export const exportClip = async (options: ExportOptions): Promise<ExportResult> => {
+  await loadCaptionFont(resolveCaptionStyle(options.template, options.customStyle));
+  if (isWebCodecsSupported()) {
+    try {
+      return await renderWithWebCodecs(options);
+    } catch (err) {
+      if (options.signal?.aborted) throw err;
+      console.warn("WebCodecs export failed, falling back to MediaRecorder", err);
+      options.onProgress?.(0);
+    }
+  }
+  return renderWithMediaRecorder(options);
+};
+
+// 53-bit string hash (cyrb53), plenty to tell renders apart
+const hashString = (text: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Identifies a render of `clip` (as shown, i.e. with its jump cut and caption track applied).
+// Only what ends up in the video counts: an edit to the footage, captions or crop, the look or
+// the output settings gives a new key, so a resumed batch never packages a stale file, while
+// renaming a clip or dismissing its warnings keeps the renders already made.
+export const getRenderKey = (clip: VideoClip, { videoUrl, template, customStyle, output, music, speakers }: RenderSettings) => {
+  const { startTime, endTime, segments, captions, cropPath } = clip;
+  const footage = [startTime, endTime, segments ?? null, captions, cropPath ?? null];
+  return `${clip.id}:${hashString(JSON.stringify([videoUrl, footage, template.id, customStyle, output, music ?? null, speakers ?? null]))}`;
+};
+
+// Render every clip that isn't in `rendered` yet, in sequence. Clips rendered by an
+// earlier run are kept, so calling this again resumes a cancelled or failed batch.
+export const exportAllClips = async ({ clips, rendered, canExport, onExported, onUpdate, ...options }: BatchExportOptions): Promise<void> => {
+  const keys = clips.map(clip => getRenderKey(clip, options));
+  // Renders of clips that have been edited since are of no use any more
+  Array.from(rendered.keys()).forEach(key => { if (!keys.includes(key)) rendered.delete(key); });
+
+  let items: BatchItem[] = clips.map((clip, i) => ({
+    clipId: clip.id,
+    title: clip.title,
+    status: rendered.has(keys[i]) ? 'done' : 'queued',
+    progress: rendered.has(keys[i]) ? 100 : 0
+  }));
+  const update = (index: number, changes: Partial<BatchItem>) => {
+    items = items.map((item, i) => (i === index ? { ...item, ...changes } : item));
+    onUpdate(items);
+  };
+  const markRemaining = (from: number, status: BatchItemStatus) => {
+    for (let j = from; j < clips.length; j++) if (items[j].status !== 'done') update(j, { status });
+  };
+  onUpdate(items);
+
+  // The clips share one decode of the source's soundtrack, held until the run ends
+  let soundtrack: ReturnType<typeof holdSoundtrack> | null = null;
+  try {
+    for (let i = 0; i < clips.length; i++) {
+      const clip = clips[i];
+      if (rendered.has(keys[i])) continue;
+
+      if (!canExport()) {
+        // Out of exports: leave the rest of the queue unrendered
+        markRemaining(i, 'skipped');
+        return;
+      }
+
+      update(i, { status: 'rendering', progress: 0, error: undefined });
+      if (isWebCodecsSupported()) soundtrack ??= holdSoundtrack(options.videoUrl, AUDIO_SAMPLE_RATE);
+      try {
+        const result = await exportClip({ ...options, clip, onProgress: progress => update(i, { progress }) });
+        rendered.set(keys[i], result);
+        onExported();
+        update(i, { status: 'done', progress: 100 });
+      } catch (err) {
+        if (options.signal?.aborted) {
+          // Cancelled or timed out: stop the whole queue
+          update(i, isExportCancelled(err) ? { status: 'cancelled' } : { status: 'failed', error: getExportErrorMessage(err) });
+          markRemaining(i + 1, 'cancelled');
+          throw err;
+        }
+        console.error(`Export of "${clip.title}" failed`, err);
+        update(i, { status: 'failed', error: getExportErrorMessage(err) });
+      }
+    }
+  } finally {
+    soundtrack?.release();
+  }
+};
+
+// Package rendered clips, their subtitle files and a JSON manifest into one ZIP. Only renders
+// made with `settings` from the clips as they are now are included.
+export const packageClips = (clips: VideoClip[], rendered: Map<string, ExportResult>, settings: RenderSettings): Promise<Blob> => {
+  const { template, customStyle, speakers } = settings;
+  const entries: ZipEntry[] = [];
+  const manifest: object[] = [];
+
+  clips.forEach((clip, i) => {
+    const result = rendered.get(getRenderKey(clip, settings));
+    if (!result) return;
+
+    // Numbered so clips with the same title don't overwrite each other
+    const baseName = `${String(i + 1).padStart(2, '0')}_${getExportBaseName(clip.title)}`;
+    const files = { video: `${baseName}.${result.extension}`, srt: `${baseName}.srt`, vtt: `${baseName}.vtt` };
+    entries.push(
+      { name: files.video, data: result.blob },
+      { name: files.srt, data: serializeSubtitles('srt', clip.captions, template, customStyle, undefined, speakers) },
+      { name: files.vtt, data: serializeSubtitles('vtt', clip.captions, template, customStyle, undefined, speakers) }
+    );
+    manifest.push({
+      title: clip.title,
+      description: clip.description,
+      viralScore: clip.viralScore,
+      startTime: clip.startTime,
+      endTime: clip.endTime,
+      ...(isSupercut(clip) ? { segments: clip.segments } : {}),
+      files
+    });
+  });
+
+  entries.push({ name: 'manifest.json', data: JSON.stringify({ exportedAt: new Date().toISOString(), clips: manifest }, null, 2) });
+  return createZip(entries);
+};
@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UPLOAD_CHUNK_SIZE, uploadFile, waitForFileActive } from './filesApiService';
+
+const BASE_URL = 'http://mock.test';
+const UPLOAD_URL = `${BASE_URL}/upload/session-1`;
+const config = { baseUrl: BASE_URL, apiKey: 'test-key' };
+
+interface MockResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+// In-memory stand-in for the Files API, shared by the fetch and XMLHttpRequest fakes
+class MockFilesApi {
+  received = 0;
+  finalized = false;
+  requests: string[] = [];
+  dropChunks = 0;          // Chunks to cut off halfway, like a dropped connection
+  pollsUntilActive = 2;
+
+  constructor(private size: number) {}
+
+  handle(method: string, url: string, headers: Record<string, string>, body?: Blob): MockResponse | 'network-error' {
+    const command = headers['X-Goog-Upload-Command'];
+    this.requests.push(command ? `${command}${headers['X-Goog-Upload-Offset'] ? ` @${headers['X-Goog-Upload-Offset']}` : ''}` : `${method} ${url}`);
+
+    if (url === `${BASE_URL}/upload/v1beta/files` && command === 'start') {
+      return { status: 200, headers: { 'x-goog-upload-url': UPLOAD_URL } };
+    }
+    if (url === UPLOAD_URL && command === 'query') {
+      return this.finalized
+        ? { status: 200, headers: { 'x-goog-upload-status': 'final' }, body: JSON.stringify({ file: this.file('PROCESSING') }) }
+        : { status: 200, headers: { 'x-goog-upload-status': 'active', 'x-goog-upload-size-received': String(this.received) } };
+    }
+    if (url === UPLOAD_URL && command?.startsWith('upload')) {
+      const offset = Number(headers['X-Goog-Upload-Offset']);
+      if (offset !== this.received) return { status: 400 };
+      if (this.dropChunks > 0) {
+        this.dropChunks--;
+        this.received += Math.floor(body!.size / 2);
+        return 'network-error';
+      }
+      this.received += body!.size;
+      if (command === 'upload, finalize') {
+        this.finalized = this.received === this.size;
+        return { status: this.finalized ? 200 : 400, body: JSON.stringify({ file: this.file('PROCESSING') }) };
+      }
+      return { status: 200 };
+    }
+    if (url === `${BASE_URL}/v1beta/files/abc` && method === 'GET') {
+      return { status: 200, body: JSON.stringify(this.file(--this.pollsUntilActive > 0 ? 'PROCESSING' : 'ACTIVE')) };
+    }
+    return { status: 404 };
+  }
+
+  private file(state: string) {
+    return { name: 'files/abc', uri: `${BASE_URL}/v1beta/files/abc`, mimeType: 'video/mp4', state };
+  }
+}
+
+let server: MockFilesApi;
+
+class FakeXhr {
+  upload: { onprogress: ((e: { loaded: number }) => void) | null } = { onprogress: null };
+  status = 0;
+  responseText = '';
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onabort: (() => void) | null = null;
+  private method = '';
+  private url = '';
+  private headers: Record<string, string> = {};
+
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  send(body: Blob) {
+    queueMicrotask(() => {
+      const response = server.handle(this.method, this.url, this.headers, body);
+      if (response === 'network-error') return this.onerror?.();
+      this.upload.onprogress?.({ loaded: body.size });
+      this.status = response.status;
+      this.responseText = response.body || '';
+      this.onload?.();
+    });
+  }
+
+  abort() {
+    this.onabort?.();
+  }
+}
+
+const fakeFetch = async (url: string, init: RequestInit = {}) => {
+  const response = server.handle(init.method || 'GET', url, (init.headers || {}) as Record<string, string>);
+  if (response === 'network-error') throw new TypeError('Failed to fetch');
+  return new Response(response.body ?? null, { status: response.status, headers: response.headers });
+};
+
+const makeFile = (size: number) => new File([new Uint8Array(size)], 'talk.mp4', { type: 'video/mp4' });
+
+// Run the fake clock until `promise` settles (retry back-off and polling wait on timers)
+const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  const result = promise.then(value => ({ value }), error => ({ error }));
+  await vi.runAllTimersAsync();
+  const outcome = await result;
+  if ('error' in outcome) throw outcome.error;
+  return outcome.value;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal('fetch', vi.fn(fakeFetch));
+  vi.stubGlobal('XMLHttpRequest', FakeXhr);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('uploadFile', () => {
+  it('uploads in chunks and finalizes with the last one', async () => {
+    const size = UPLOAD_CHUNK_SIZE * 2 + 1000;
+    server = new MockFilesApi(size);
+    const onBytes = vi.fn();
+
+    const file = await settle(uploadFile(config, makeFile(size), { onBytes }));
+
+    expect(file.name).toBe('files/abc');
+    expect(server.requests).toEqual([
+      'start',
+      'upload @0',
+      `upload @${UPLOAD_CHUNK_SIZE}`,
+      `upload, finalize @${UPLOAD_CHUNK_SIZE * 2}`
+    ]);
+    expect(onBytes).toHaveBeenLastCalledWith(size);
+  });
+
+  it('resumes from the offset the server reports after a failed chunk', async () => {
+    const size = UPLOAD_CHUNK_SIZE * 2;
+    server = new MockFilesApi(size);
+    server.dropChunks = 1;
+
+    const file = await settle(uploadFile(config, makeFile(size)));
+
+    const resumeAt = UPLOAD_CHUNK_SIZE / 2;
+    expect(file.name).toBe('files/abc');
+    expect(server.requests).toEqual([
+      'start',
+      'upload @0',
+      'query',
+      `upload @${resumeAt}`,
+      `upload, finalize @${resumeAt + UPLOAD_CHUNK_SIZE}`
+    ]);
+    expect(server.received).toBe(size);
+  });
+
+  it('gives up when a chunk keeps failing', async () => {
+    server = new MockFilesApi(1000);
+    server.dropChunks = Infinity;
+
+    await expect(settle(uploadFile(config, makeFile(1000)))).rejects.toThrow('Network error during upload');
+    expect(server.requests.filter(r => r === 'query')).toHaveLength(3);
+  });
+
+  it('stops when aborted', async () => {
+    server = new MockFilesApi(UPLOAD_CHUNK_SIZE * 2);
+    server.dropChunks = 1;
+    const controller = new AbortController();
+    const upload = uploadFile(config, makeFile(UPLOAD_CHUNK_SIZE * 2), { signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort(new DOMException('Cancelled', 'AbortError'));
+
+    await expect(settle(upload)).rejects.toThrow('Cancelled');
+    expect(server.finalized).toBe(false);
+  });
+});
+
+describe('waitForFileActive', () => {
+  const uploaded = { name: 'files/abc', uri: `${BASE_URL}/v1beta/files/abc`, state: 'PROCESSING' as const };
+
+  it('polls until the file is active', async () => {
+    server = new MockFilesApi(0);
+
+    const file = await settle(waitForFileActive(config, uploaded));
+
+    expect(file.state).toBe('ACTIVE');
+    expect(server.requests).toEqual([`GET ${BASE_URL}/v1beta/files/abc`, `GET ${BASE_URL}/v1beta/files/abc`]);
+  });
+
+  it('gives up when processing never finishes', async () => {
+    server = new MockFilesApi(0);
+    server.pollsUntilActive = Infinity;
+
+    await expect(settle(waitForFileActive(config, uploaded))).rejects.toThrow('took too long');
+  });
+
+  it('stops polling when aborted', async () => {
+    server = new MockFilesApi(0);
+    server.pollsUntilActive = Infinity;
+    const controller = new AbortController();
+    const polling = waitForFileActive(config, uploaded, controller.signal);
+    await vi.advanceTimersByTimeAsync(5000);
+    controller.abort(new DOMException('Cancelled', 'AbortError'));
+
+    await expect(settle(polling)).rejects.toThrow('Cancelled');
+    expect(server.requests).toHaveLength(2);
+  });
+});
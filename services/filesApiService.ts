@@ -0,0 +1,164 @@
+// Gemini Files API over plain HTTP: resumable upload and waiting for server-side processing.
+// Kept free of the SDK so the whole sequence can run against a local mock server.
+
+// Resumable upload chunk size (must be a multiple of 256KB)
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 3;         // per chunk, before the upload gives up
+const RETRY_DELAY_MS = 1000;         // doubled after every failed attempt
+const FILE_POLL_INTERVAL_MS = 2000;
+const FILE_PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface FilesApiConfig {
+  baseUrl: string;
+  apiKey: string;
+}
+
+// The file resource as the API returns it
+export interface FilesApiFile {
+  name: string;
+  uri: string;
+  mimeType?: string;
+  state?: 'STATE_UNSPECIFIED' | 'PROCESSING' | 'ACTIVE' | 'FAILED';
+}
+
+export interface UploadOptions {
+  onBytes?: (sent: number) => void; // Total bytes the server has received so far
+  signal?: AbortSignal;
+}
+
+// Wait `ms`, or reject early when `signal` aborts
+const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// POST one chunk of a resumable upload, reporting bytes sent within the chunk
+const uploadChunk = (
+  uploadUrl: string,
+  chunk: Blob,
+  offset: number,
+  isLast: boolean,
+  onBytes: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<XMLHttpRequest> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    xhr.open('POST', uploadUrl);
+    xhr.setRequestHeader('X-Goog-Upload-Command', isLast ? 'upload, finalize' : 'upload');
+    xhr.setRequestHeader('X-Goog-Upload-Offset', String(offset));
+    xhr.upload.onprogress = (e) => onBytes(e.loaded);
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', onAbort);
+      if (xhr.status >= 200 && xhr.status < 300) resolve(xhr);
+      else reject(new Error(`Upload failed with status ${xhr.status}`));
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(new Error("Network error during upload"));
+    };
+    xhr.onabort = () => reject(signal?.reason ?? new DOMException('Upload aborted', 'AbortError'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+    xhr.send(chunk);
+  });
+};
+
+// Ask the server how much of an interrupted upload it kept. A finished upload also returns
+// the file resource.
+const queryUpload = async (uploadUrl: string, signal?: AbortSignal): Promise<{ received: number; file?: FilesApiFile }> => {
+  const response = await fetch(uploadUrl, {
+    method: 'POST',
+    headers: { 'X-Goog-Upload-Command': 'query' },
+    signal
+  });
+  if (!response.ok) throw new Error(`Could not query upload status (status ${response.status})`);
+  if (response.headers.get('x-goog-upload-status') === 'final') {
+    const file = (await response.json())?.file as FilesApiFile | undefined;
+    return { received: Infinity, file };
+  }
+  const received = Number(response.headers.get('x-goog-upload-size-received'));
+  if (!Number.isFinite(received) || received < 0) throw new Error("Upload status did not say how much was received");
+  return { received };
+};
+
+// Upload a file with the resumable protocol in UPLOAD_CHUNK_SIZE chunks. When a chunk fails,
+// the server is asked how much it has and the upload carries on from there, so a dropped
+// connection near the end of a large file doesn't start it over.
+export const uploadFile = async (config: FilesApiConfig, file: File, { onBytes, signal }: UploadOptions = {}): Promise<FilesApiFile> => {
+  const mimeType = file.type || 'video/mp4';
+  const startResponse = await fetch(`${config.baseUrl}/upload/v1beta/files`, {
+    method: 'POST',
+    headers: {
+      'x-goog-api-key': config.apiKey,
+      'Content-Type': 'application/json',
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(file.size),
+      'X-Goog-Upload-Header-Content-Type': mimeType
+    },
+    body: JSON.stringify({ file: { displayName: file.name } }),
+    signal
+  });
+  const uploadUrl = startResponse.headers.get('x-goog-upload-url');
+  if (!startResponse.ok || !uploadUrl) {
+    throw new Error(`Could not start upload (status ${startResponse.status})`);
+  }
+
+  onBytes?.(0);
+  let offset = 0;
+  let failures = 0;
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + UPLOAD_CHUNK_SIZE);
+    const isLast = offset + chunk.size >= file.size;
+    const chunkOffset = offset;
+    try {
+      const xhr = await uploadChunk(uploadUrl, chunk, offset, isLast, loaded => onBytes?.(chunkOffset + loaded), signal);
+      offset += chunk.size;
+      failures = 0;
+      if (isLast) {
+        const uploaded = JSON.parse(xhr.responseText || '{}').file as FilesApiFile | undefined;
+        if (!uploaded?.name || !uploaded?.uri) throw new Error("Upload did not return a file reference");
+        return uploaded;
+      }
+    } catch (err) {
+      if (signal?.aborted || ++failures > MAX_CHUNK_RETRIES) throw err;
+      console.warn(`Upload chunk at ${chunkOffset} failed, resuming (attempt ${failures} of ${MAX_CHUNK_RETRIES})`, err);
+      await delay(RETRY_DELAY_MS * 2 ** (failures - 1), signal);
+      const status = await queryUpload(uploadUrl, signal);
+      if (status.file?.name && status.file.uri) return status.file;
+      offset = Math.min(status.received, file.size);
+      onBytes?.(offset);
+    }
+  }
+  throw new Error("Upload ended without being finalized");
+};
+
+// Poll an uploaded file until the server has processed it. Gives up after
+// FILE_PROCESSING_TIMEOUT_MS or when `signal` aborts.
+export const waitForFileActive = async (config: FilesApiConfig, uploaded: FilesApiFile, signal?: AbortSignal): Promise<FilesApiFile> => {
+  const deadline = Date.now() + FILE_PROCESSING_TIMEOUT_MS;
+  let file = uploaded;
+  while (file.state === 'PROCESSING') {
+    if (Date.now() >= deadline) throw new Error("The video took too long to process");
+    await delay(FILE_POLL_INTERVAL_MS, signal);
+    const response = await fetch(`${config.baseUrl}/v1beta/${file.name}`, {
+      headers: { 'x-goog-api-key': config.apiKey },
+      signal
+    });
+    if (!response.ok) throw new Error(`Could not check the uploaded video (status ${response.status})`);
+    file = { ...file, ...(await response.json()) };
+  }
+  if (file.state === 'FAILED') throw new Error("The video could not be processed");
+  return file;
+};
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MOCK_CLIPS_FALLBACK } from '../constants';
+import { createFixtureProvider, fixtureProvider } from './fixtureProvider';
+import { openAiCompatibleProvider } from './openAiCompatibleService';
+import { analyzeVideoContent, transcribeVideo } from './analysisService';
+import { getVideoDuration } from './mediaService';
+
+// Source lengths come from a <video> element, which doesn't exist here
+vi.mock('./mediaService', () => ({ getVideoDuration: vi.fn() }));
+
+const file = new File([new Uint8Array(16)], 'talk.mp4', { type: 'video/mp4' });
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('createFixtureProvider', () => {
+  it('answers with copies of the fixture clips', async () => {
+    const provider = createFixtureProvider();
+    const onProgress = vi.fn();
+
+    const clips = await provider.analyze(file, { onProgress });
+    clips[0].title = 'Changed';
+    clips[0].captions.length = 0;
+
+    expect(onProgress).toHaveBeenCalledWith({ status: 'ANALYZING' });
+    expect(await provider.analyze(file, {})).toEqual(MOCK_CLIPS_FALLBACK);
+    expect(MOCK_CLIPS_FALLBACK[0].title).toBe('Mind-Blowing Fact');
+  });
+
+  it('transcribes a range with the fixture speech inside it, relative to its start', async () => {
+    const captions = await createFixtureProvider().transcribe(file, { startTime: 20, endTime: 62 });
+
+    expect(captions.map(c => [c.text, c.start, c.end])).toEqual([
+      ['Because there is no atmosphere...', 0, 4],
+      ['Sound has no way to travel!', 4, 7],
+      ["It's terrifying but cool.", 7, 10],
+      ['Watch this closely...', 40, 42]
+    ]);
+  });
+
+  it('has no speech for a range outside the fixture clips', async () => {
+    expect(await createFixtureProvider().transcribe(file, { startTime: 100, endTime: 130 })).toEqual([]);
+  });
+
+  it('places every clip\'s captions in the source for a whole-video transcript', async () => {
+    const captions = await createFixtureProvider().transcribe(file);
+
+    expect(captions).toHaveLength(10);
+    expect(captions[0]).toMatchObject({ text: 'Did you know?', start: 15, end: 17 });
+    expect(captions[5]).toMatchObject({ text: 'Watch this closely...', start: 60, end: 63 });
+    expect(captions.every((c, i) => i === 0 || c.start >= captions[i - 1].start)).toBe(true);
+  });
+});
+
+describe('analysisService with the fixture provider', () => {
+  it('validates the fixture clips against the source length', async () => {
+    vi.stubEnv('ANALYSIS_PROVIDER', 'fixture');
+    vi.mocked(getVideoDuration).mockResolvedValue(40);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const clips = await analyzeVideoContent(file);
+
+    expect(clips.map(c => c.id)).toEqual(['1']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Discarded'), [expect.stringContaining('Funny Mistake')]);
+  });
+
+  it('transcribes a long source in windows and joins them in source time', async () => {
+    vi.stubEnv('ANALYSIS_PROVIDER', 'fixture');
+    vi.mocked(getVideoDuration).mockResolvedValue(700);
+    const onProgress = vi.fn();
+
+    const transcript = await transcribeVideo(file, { onProgress });
+
+    // The same transcript the provider gives for the whole video at once
+    expect(transcript).toEqual(await createFixtureProvider().transcribe(file));
+    expect(transcript.map(c => c.text)).toEqual(MOCK_CLIPS_FALLBACK.flatMap(clip => clip.captions.map(c => c.text)));
+    expect(transcript[5]).toMatchObject({ text: 'Watch this closely...', start: 60, end: 63 });
+    expect(onProgress.mock.calls.map(([state]) => Math.round(state.progress))).toEqual([0, 33, 67, 100]);
+  });
+
+  it('sends the whole video once to a provider that cannot transcribe a range', async () => {
+    vi.stubEnv('ANALYSIS_PROVIDER', 'openai-compatible');
+    vi.mocked(getVideoDuration).mockResolvedValue(700);
+    const transcribe = vi.spyOn(openAiCompatibleProvider, 'transcribe').mockResolvedValue([
+      { text: 'Hello there', start: 1, end: 2 },
+      { text: 'Near the end', start: 650, end: 652 }
+    ]);
+
+    const transcript = await transcribeVideo(file);
+
+    expect(transcribe).toHaveBeenCalledTimes(1);
+    expect(transcribe).toHaveBeenCalledWith(file, undefined, expect.anything());
+    expect(transcript.map(c => [c.text, c.start])).toEqual([['Hello there', 1], ['Near the end', 650]]);
+  });
+
+  it('passes upload progress through and stops between windows when aborted', async () => {
+    vi.stubEnv('ANALYSIS_PROVIDER', 'fixture');
+    vi.mocked(getVideoDuration).mockResolvedValue(700);
+    const controller = new AbortController();
+    const transcribe = vi.spyOn(fixtureProvider, 'transcribe').mockImplementation(async (_file, range, options) => {
+      options?.onProgress?.({ status: 'UPLOADING', message: 'Uploading video...', progress: 50 });
+      controller.abort(new DOMException('Cancelled', 'AbortError'));
+      return [{ text: `From ${range?.startTime}`, start: 0, end: 1 }];
+    });
+    const onProgress = vi.fn();
+
+    await expect(transcribeVideo(file, { onProgress, signal: controller.signal })).rejects.toThrow('Cancelled');
+
+    expect(transcribe).toHaveBeenCalledTimes(1);
+    expect(transcribe).toHaveBeenCalledWith(file, { startTime: 0, endTime: 300 }, expect.objectContaining({ signal: controller.signal }));
+    expect(onProgress).toHaveBeenCalledWith({ status: 'UPLOADING', message: 'Uploading video...', progress: 50 });
+  });
+});
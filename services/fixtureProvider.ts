@@ -0,0 +1,29 @@
+import { VideoClip } from '../types';
+import { MOCK_CLIPS_FALLBACK } from '../constants';
+import { ClipAnalysisProvider } from './analysisProvider';
+import { rebaseCaptions } from './captionService';
+
+// Deterministic provider for tests and offline demos: always answers with the
+// same clips (deep-copied so callers can't mutate the fixture).
+export const createFixtureProvider = (clips: VideoClip[] = MOCK_CLIPS_FALLBACK, delayMs = 0): ClipAnalysisProvider => ({
+  id: 'fixture',
+  name: 'Fixture data',
+  analyze: async (_file, { onProgress }) => {
+    onProgress?.({ status: 'ANALYZING' });
+    if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+    return JSON.parse(JSON.stringify(clips)) as VideoClip[];
+  },
+  // The fixture clips' captions at their place in the source: for a range, the part of them
+  // inside it (relative to its start), so consecutive windows of a long source never repeat
+  canTranscribeRange: true,
+  transcribe: async (_file, range) => {
+    if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+    const copy = JSON.parse(JSON.stringify(clips)) as VideoClip[];
+    const transcript = copy
+      .flatMap(clip => rebaseCaptions(clip.captions, -clip.startTime, Infinity))
+      .sort((a, b) => a.start - b.start);
+    return range ? rebaseCaptions(transcript, range.startTime, range.endTime - range.startTime) : transcript;
+  }
+});
+
+export const fixtureProvider = createFixtureProvider();
@@ -1,7 +1,56 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { VideoClip } from '../types';
+import { GoogleGenAI, Type, Part, createPartFromUri } from "@google/genai";
+import { Caption, ClipSegment, VideoClip } from '../types';
 import { MOCK_CLIPS_FALLBACK } from '../constants';
+import { ClipAnalysisProvider, AnalysisOptions, ProgressCallback, TranscribeOptions, buildAnalysisPrompt, buildTranscriptionPrompt, parseCaptionsResponse, parseClipsResponse } from './analysisProvider';
+import { createFixtureProvider } from './fixtureProvider';
+import { buildEnrichmentPrompt, enrichCaptionsLocally, parseEnrichmentResponse } from './enrichmentService';
+import { buildTranslationPrompt, parseTranslationResponse } from './translationService';
+import { uploadFile, waitForFileActive } from './filesApiService';
+import { fileToBase64 } from './mediaService';
+
+// Point at a local mock server by setting GEMINI_API_BASE_URL in .env.local
+const API_BASE_URL = process.env.GEMINI_API_BASE_URL || 'https://generativelanguage.googleapis.com';
+
+// Requests above ~20MB are rejected when the video is sent inline, so larger files go through the Files API
+const INLINE_UPLOAD_LIMIT = 20 * 1024 * 1024;
+
+interface UploadedFile {
+  name: string;
+  uri: string;
+  mimeType: string;
+}
+
+// Caption chunks with word timings and speaker labels, relative to the start of their clip or segment
+const CAPTIONS_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING },
+      start: { type: Type.NUMBER },
+      end: { type: Type.NUMBER },
+      words: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            text: { type: Type.STRING },
+            start: { type: Type.NUMBER },
+            end: { type: Type.NUMBER },
+            emphasis: { type: Type.BOOLEAN }
+          },
+          required: ["text", "start", "end"]
+        }
+      },
+      speaker: { type: Type.STRING }
+    },
+    required: ["text", "start", "end"]
+  }
+};
+
+// Uploaded files stay available on the API for a while, so reuse them for the same File
+const uploadedFiles = new WeakMap<File, UploadedFile>();
 
 const getAiClient = () => {
   const apiKey = process.env.API_KEY;
@@ -9,83 +58,68 @@ const getAiClient = () => {
     console.error("API Key not found in environment");
     return null;
   }
-  return new GoogleGenAI({ apiKey });
+  return new GoogleGenAI({
+    apiKey,
+    ...(process.env.GEMINI_API_BASE_URL ? { httpOptions: { baseUrl: API_BASE_URL } } : {})
+  });
 };
 
-// Helper to convert blob/file to base64
-export const fileToGenerativePart = async (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      // Remove data url prefix (e.g. "data:video/mp4;base64,")
-      const base64Data = base64String.split(',')[1];
-      resolve(base64Data);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
+// Upload a file through the Files API (see filesApiService). Unlike inline data this
+// streams the file in chunks instead of holding a base64 copy in memory.
+const uploadToFilesApi = async (file: File, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<UploadedFile> => {
+  const cached = uploadedFiles.get(file);
+  if (cached) return cached;
+
+  const config = { baseUrl: API_BASE_URL, apiKey: process.env.API_KEY as string };
+  const uploaded = await uploadFile(config, file, {
+    signal,
+    onBytes: sent => onProgress?.({
+      status: 'UPLOADING',
+      message: "Uploading video...",
+      progress: Math.min(100, (sent / file.size) * 100)
+    })
   });
+
+  // The video must finish server-side processing before it can be used in a prompt
+  onProgress?.({ status: 'UPLOADING', message: "Processing video...", progress: 100 });
+  const processed = await waitForFileActive(config, uploaded, signal);
+
+  const result: UploadedFile = { name: processed.name, uri: processed.uri, mimeType: processed.mimeType || file.type || 'video/mp4' };
+  uploadedFiles.set(file, result);
+  return result;
+};
+
+// Small videos are sent inline, larger ones through the Files API
+const getVideoPart = async (file: File, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<Part> => {
+  if (file.size <= INLINE_UPLOAD_LIMIT) {
+    const base64Data = await fileToBase64(file);
+    return { inlineData: { mimeType: file.type, data: base64Data } };
+  }
+  const uploaded = await uploadToFilesApi(file, onProgress, signal);
+  return createPartFromUri(uploaded.uri, uploaded.mimeType);
 };
 
-export const analyzeVideoContent = async (file: File, searchQuery?: string): Promise<VideoClip[]> => {
+const analyzeWithGemini = async (file: File, { searchQuery, onProgress, signal }: AnalysisOptions): Promise<VideoClip[]> => {
   const ai = getAiClient();
   
   // Only use mock data if API key is missing. 
   if (!ai) { 
     console.warn("Using mock data due to missing API key.");
-    return new Promise(resolve => setTimeout(() => resolve(MOCK_CLIPS_FALLBACK), 2000));
+    return createFixtureProvider(MOCK_CLIPS_FALLBACK, 2000).analyze(file, { searchQuery, onProgress });
   }
 
   try {
-    const base64Data = await fileToGenerativePart(file);
+    const videoPart = await getVideoPart(file, onProgress, signal);
+    onProgress?.({ status: 'ANALYZING' });
     const modelId = "gemini-2.5-flash"; // Supports video input
 
-    let taskDescription = "";
-    if (searchQuery && searchQuery.trim().length > 0) {
-        taskDescription = `
-            Task: SEARCH and FIND segments in the video that specifically match this user query: "${searchQuery}".
-            Constraint: Find the best 1-5 segments that satisfy the user's search.
-            If multiple relevant moments exist, provide them as separate segments. 
-            If the query implies "combining" moments, identify the sequential segments that cover the topic best.
-        `;
-    } else {
-        taskDescription = `
-            Task: Analyze the uploaded video (AUDIO and VISUAL) to find 5 distinct, engaging "viral" segments.
-        `;
-    }
-
-    const prompt = `
-      You are a professional video editor specializing in YouTube Shorts.
-      
-      ${taskDescription}
-      
-      General Constraint: Each segment MUST be between 15 and 50 seconds long.
-
-      CRITICAL INSTRUCTION FOR CAPTIONS:
-      1. Listen to the AUDIO track of the selected segment extremely carefully.
-      2. Generate a VERBATIM (word-for-word) transcript. 
-      3. DO NOT SUMMARIZE. DO NOT INVENT TEXT. If a person says "Umm, well," include "Umm, well".
-      4. Split the transcript into small chunks (3-8 words) for dynamic captions.
-      5. Synchronization must be precise.
-
-      Output JSON format:
-      For each segment, provide:
-      1. title: A catchy, viral-style title.
-      2. startTime: Start timestamp in seconds (absolute time in original video).
-      3. endTime: End timestamp in seconds (absolute time in original video).
-      4. description: Brief reasoning for selection.
-      5. viralScore: 0-100 score (Relevance score if searching).
-      6. captions: An array of caption objects:
-         - text: The exact spoken words.
-         - start: Start time relative to the SEGMENT START (0.0 = start of the clip).
-         - end: End time relative to the SEGMENT START.
-    `;
+    const prompt = buildAnalysisPrompt(searchQuery);
 
     const response = await ai.models.generateContent({
       model: modelId,
       contents: {
         parts: [
-          { inlineData: { mimeType: file.type, data: base64Data } },
+          videoPart,
           { text: prompt }
         ]
       },
@@ -101,16 +135,17 @@ export const analyzeVideoContent = async (file: File, searchQuery?: string): Pro
               endTime: { type: Type.NUMBER },
               description: { type: Type.STRING },
               viralScore: { type: Type.NUMBER },
-              captions: { 
+              captions: CAPTIONS_SCHEMA,
+              segments: {
                 type: Type.ARRAY,
                 items: {
                   type: Type.OBJECT,
                   properties: {
-                    text: { type: Type.STRING },
-                    start: { type: Type.NUMBER },
-                    end: { type: Type.NUMBER }
+                    startTime: { type: Type.NUMBER },
+                    endTime: { type: Type.NUMBER },
+                    captions: CAPTIONS_SCHEMA
                   },
-                  required: ["text", "start", "end"]
+                  required: ["startTime", "endTime", "captions"]
                 }
               }
             },
@@ -123,16 +158,133 @@ export const analyzeVideoContent = async (file: File, searchQuery?: string): Pro
     const text = response.text;
     if (!text) throw new Error("No response from AI");
 
-    const clips = JSON.parse(text) as Omit<VideoClip, 'id'>[];
-    
-    // Add IDs
-    return clips.map((clip, index) => ({
-      ...clip,
-      id: `generated-${index}-${Date.now()}`
-    }));
+    return parseClipsResponse(text, 'generated');
 
   } catch (error) {
     console.error("Gemini Analysis Error:", error);
     throw error;
   }
 };
+
+// Transcribe one range of the video, or all of it in transcript mode. For a range the video
+// part is clipped so the model only has to process that part.
+const transcribeWithGemini = async (file: File, range?: ClipSegment, { onProgress, signal }: TranscribeOptions = {}): Promise<Caption[]> => {
+  const ai = getAiClient();
+  if (!ai) {
+    console.warn("Using mock captions due to missing API key.");
+    return createFixtureProvider(MOCK_CLIPS_FALLBACK, 1000).transcribe(file, range);
+  }
+
+  try {
+    const videoPart = await getVideoPart(file, onProgress, signal);
+    onProgress?.({ status: 'ANALYZING' });
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: {
+        parts: [
+          range ? { ...videoPart, videoMetadata: { startOffset: `${range.startTime}s`, endOffset: `${range.endTime}s` } } : videoPart,
+          { text: buildTranscriptionPrompt(range) }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: CAPTIONS_SCHEMA
+      }
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from AI");
+
+    return parseCaptionsResponse(text);
+
+  } catch (error) {
+    console.error("Gemini Transcription Error:", error);
+    throw error;
+  }
+};
+
+// Add contextual emojis and key word highlights to a clip's captions with a text-only request.
+// Falls back to the local keyword dictionary when there's no API key.
+export const enrichCaptions = async (captions: Caption[]): Promise<Caption[]> => {
+  const ai = getAiClient();
+  if (!ai) {
+    console.warn("Using the local emoji dictionary due to missing API key.");
+    return enrichCaptionsLocally(captions);
+  }
+
+  try {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: buildEnrichmentPrompt(captions),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              index: { type: Type.INTEGER },
+              emoji: { type: Type.STRING },
+              keywords: { type: Type.ARRAY, items: { type: Type.STRING } }
+            },
+            required: ["index"]
+          }
+        }
+      }
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from AI");
+
+    return parseEnrichmentResponse(captions, text);
+
+  } catch (error) {
+    console.error("Gemini Enrichment Error:", error);
+    throw error;
+  }
+};
+
+// Translate a clip's captions into `language` (a name, e.g. "Hindi") with a text-only request.
+// The result keeps the original timings, re-chunked where the translation runs long.
+export const translateCaptions = async (captions: Caption[], language: string): Promise<Caption[]> => {
+  const ai = getAiClient();
+  if (!ai) throw new Error("Translation needs a Gemini API key");
+
+  try {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: buildTranslationPrompt(captions, language),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              index: { type: Type.INTEGER },
+              text: { type: Type.STRING }
+            },
+            required: ["index", "text"]
+          }
+        }
+      }
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from AI");
+
+    return parseTranslationResponse(captions, text);
+
+  } catch (error) {
+    console.error("Gemini Translation Error:", error);
+    throw error;
+  }
+};
+
+export const geminiProvider: ClipAnalysisProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  analyze: analyzeWithGemini,
+  canTranscribeRange: true,
+  transcribe: transcribeWithGemini
+};
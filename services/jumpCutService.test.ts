@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Caption, ClipSegment, VideoClip } from '../types';
+import { detectJumpCuts, getEditedClip, getJumpCutSavings } from './jumpCutService';
+import { getAudioEnvelope } from './mediaService';
+
+// Decoding audio needs an AudioContext, which doesn't exist here
+vi.mock('./mediaService', () => ({ getAudioEnvelope: vi.fn() }));
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const clip = (fields: Partial<VideoClip>, removed: ClipSegment[] = []): VideoClip => ({
+  id: '1', title: 'Clip', description: '', viralScore: 50, startTime: 10, endTime: 20, captions: [],
+  jumpCut: { enabled: true, removeFillers: true, minSilence: 0.6, removed },
+  ...fields
+});
+
+// Cuts "um" (source 10-10.5) and a pause (source 14-16) out of a plain 10-20s clip
+const removed = [{ startTime: 10, endTime: 10.5 }, { startTime: 14, endTime: 16 }];
+const plain = clip({}, removed);
+const supercut = clip({ endTime: 60, segments: [{ startTime: 10, endTime: 20 }, { startTime: 50, endTime: 60 }] }, [{ startTime: 18, endTime: 52 }]);
+
+describe('getEditedClip', () => {
+  it('plays what is left of each segment', () => {
+    expect(getEditedClip(plain).segments).toEqual([{ startTime: 10.5, endTime: 14 }, { startTime: 16, endTime: 20 }]);
+    expect(getEditedClip(supercut).segments).toEqual([{ startTime: 10, endTime: 18 }, { startTime: 52, endTime: 60 }]);
+  });
+
+  it.each([
+    ['a cut-out start', plain, 0, null],
+    ['the first kept piece', plain, 2, 1.5],
+    ['a cut-out pause', plain, 5, null],
+    ['after the pause', plain, 7, 4.5],
+    ['the first segment of a supercut', supercut, 5, 5],
+    ['a cut between supercut segments', supercut, 9, null],
+    ['the second segment of a supercut', supercut, 13, 9]
+  ])('moves a crop keyframe in %s', (_name, target, time, expected) => {
+    const cropPath = getEditedClip({ ...target, cropPath: [{ time, x: 0.5, y: 0.5 }] }).cropPath;
+
+    expect(cropPath).toEqual(expected === null ? [] : [{ time: expected, x: 0.5, y: 0.5 }]);
+  });
+
+  it('drops cut words, re-indexes key words and drops captions that were cut out', () => {
+    const captions: Caption[] = [
+      {
+        text: 'um hello world',
+        start: 0,
+        end: 3,
+        words: [{ text: 'um', start: 0, end: 0.5 }, { text: 'hello', start: 0.5, end: 1.5 }, { text: 'world', start: 1.5, end: 3 }],
+        enrichment: { emoji: '👋', showEmoji: true, highlights: [{ start: 1, end: 3 }], showHighlights: true }
+      },
+      { text: 'pause', start: 4.5, end: 5.5 },
+      { text: 'later', start: 6, end: 8 }
+    ];
+
+    expect(getEditedClip({ ...plain, captions }).captions).toEqual([
+      {
+        text: 'hello world',
+        start: 0,
+        end: 2.5,
+        words: [{ text: 'hello', start: 0, end: 1 }, { text: 'world', start: 1, end: 2.5 }],
+        enrichment: { emoji: '👋', showEmoji: true, highlights: [{ start: 0, end: 2 }], showHighlights: true }
+      },
+      { text: 'later', start: 3.5, end: 5.5 }
+    ]);
+  });
+
+  it.each([
+    ['switched off', { ...plain, jumpCut: { ...plain.jumpCut!, enabled: false } }],
+    ['with nothing to cut', clip({})],
+    ['when the cut would remove everything', clip({}, [{ startTime: 0, endTime: 30 }])]
+  ])('leaves the clip alone %s', (_name, target) => {
+    expect(getEditedClip(target)).toBe(target);
+  });
+});
+
+describe('getJumpCutSavings', () => {
+  it.each([
+    ['a plain clip', plain, 2.5],
+    ['a supercut', supercut, 4],
+    ['a clip without a jump cut', clip({ jumpCut: undefined }), 0]
+  ])('counts the seconds cut from %s', (_name, target, seconds) => {
+    expect(getJumpCutSavings(target)).toBe(seconds);
+  });
+});
+
+describe('detectJumpCuts', () => {
+  const words: Caption[] = [{
+    text: 'so um then',
+    start: 0,
+    end: 2.5,
+    words: [{ text: 'so', start: 0, end: 0.5 }, { text: 'um', start: 0.5, end: 0.8 }, { text: 'then', start: 2, end: 2.5 }]
+  }];
+
+  it.each([
+    ['pauses and fillers', true, [{ startTime: 10.5, endTime: 10.8 }, { startTime: 10.88, endTime: 11.92 }]],
+    ['pauses only', false, [{ startTime: 10.88, endTime: 11.92 }]]
+  ])('falls back to gaps between words for %s without audio', async (_name, removeFillers, expected) => {
+    vi.mocked(getAudioEnvelope).mockRejectedValue(new Error('No audio'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await detectJumpCuts('blob:video', clip({ captions: words }), { removeFillers, minSilence: 0.6 })).toEqual(expected);
+  });
+
+  it('cuts quiet stretches of the audio, keeping a little of the pause on each side', async () => {
+    const step = 0.01;
+    const rms = new Float32Array(2000).map((_, i) => (i * step >= 12 && i * step < 13.5 ? 0 : 0.5));
+    vi.mocked(getAudioEnvelope).mockResolvedValue({ step, peaks: rms, rms });
+
+    expect(await detectJumpCuts('blob:video', clip({}), { removeFillers: false, minSilence: 0.6 })).toEqual([{ startTime: 12.08, endTime: 13.42 }]);
+  });
+});
@@ -0,0 +1,216 @@
+import { Caption, CaptionWord, ClipSegment, CropKeyframe, VideoClip } from '../types';
+import { AudioEnvelope, getAudioEnvelope } from './mediaService';
+import { findSegmentIndex, getClipSegments, toClipTime, toSourceTime } from './segmentService';
+
+export const DEFAULT_MIN_SILENCE = 0.6; // seconds
+
+const FILLER_WORDS = new Set(['um', 'umm', 'ummm', 'uh', 'uhh', 'uhm', 'er', 'erm', 'ah', 'ahh', 'hmm', 'hm', 'mm', 'mhm']);
+const SILENCE_WINDOW = 0.02;  // seconds per loudness measurement
+const SILENCE_FLOOR = 0.005;  // RMS that always counts as silence
+const SILENCE_RATIO = 0.1;    // ...as does anything below this fraction of the clip's loud parts
+const CUT_PADDING = 0.08;     // seconds of pause kept on each side of a cut so speech isn't clipped
+const MIN_KEPT = 0.1;         // kept pieces shorter than this are cut as well
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+export const isFillerWord = (text: string) => FILLER_WORDS.has(text.toLowerCase().replace(/[^a-z]/g, ''));
+
+// Sort and join overlapping ranges
+const mergeRanges = (ranges: ClipSegment[]): ClipSegment[] => {
+  const merged: ClipSegment[] = [];
+  [...ranges].sort((a, b) => a.startTime - b.startTime).forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.startTime <= last.endTime) last.endTime = Math.max(last.endTime, range.endTime);
+    else merged.push({ ...range });
+  });
+  return merged;
+};
+
+// Source ranges of filler words, from the word timings
+const findFillers = (clip: VideoClip): ClipSegment[] => {
+  return clip.captions.flatMap(c => c.words || [])
+    .filter(w => isFillerWord(w.text))
+    .map(w => {
+      const startTime = toSourceTime(clip, w.start);
+      return { startTime, endTime: startTime + (w.end - w.start) };
+    });
+};
+
+// Quiet stretches of at least `minSilence` seconds in the clip's audio, in source time
+const findAudioSilences = (envelope: AudioEnvelope, clip: VideoClip, minSilence: number): ClipSegment[] => {
+  const data = envelope.rms;
+  const windowSize = Math.max(1, Math.round(SILENCE_WINDOW / envelope.step));
+  const windowLength = windowSize * envelope.step; // seconds per measurement
+
+  // Envelope values are RMS already, so a window's level is the RMS of its values
+  const levels = getClipSegments(clip).map(segment => {
+    const first = Math.max(0, Math.floor(segment.startTime / envelope.step));
+    const last = Math.min(data.length, Math.floor(segment.endTime / envelope.step));
+    const rms: number[] = [];
+    for (let from = first; from < last; from += windowSize) {
+      const to = Math.min(last, from + windowSize);
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += data[i] * data[i];
+      rms.push(Math.sqrt(sum / Math.max(1, to - from)));
+    }
+    return { segment, rms };
+  });
+
+  // Relative to the loud parts (90th percentile) so quiet recordings still get cut sensibly
+  const sorted = levels.flatMap(l => l.rms).sort((a, b) => a - b);
+  const loud = sorted[Math.floor(sorted.length * 0.9)] || 0;
+  const threshold = Math.max(SILENCE_FLOOR, loud * SILENCE_RATIO);
+
+  const silences: ClipSegment[] = [];
+  levels.forEach(({ segment, rms }) => {
+    let runStart = -1;
+    rms.forEach((level, i) => {
+      const quiet = level < threshold;
+      if (quiet && runStart === -1) runStart = i;
+      if ((!quiet || i === rms.length - 1) && runStart !== -1) {
+        const runEnd = quiet ? i + 1 : i;
+        const startTime = segment.startTime + runStart * windowLength;
+        const endTime = Math.min(segment.endTime, segment.startTime + runEnd * windowLength);
+        if (endTime - startTime >= minSilence) silences.push({ startTime, endTime });
+        runStart = -1;
+      }
+    });
+  });
+  return silences;
+};
+
+// Without audio, fall back to pauses between timed words
+const findWordGaps = (clip: VideoClip, minSilence: number): ClipSegment[] => {
+  const words = clip.captions.flatMap(c => c.words || []).sort((a, b) => a.start - b.start);
+  return words.slice(1)
+    .map((w, i) => ({ start: words[i].end, end: w.start }))
+    .filter(gap => gap.end - gap.start >= minSilence)
+    .map(gap => {
+      const startTime = toSourceTime(clip, gap.start);
+      return { startTime, endTime: startTime + (gap.end - gap.start) };
+    });
+};
+
+// Find the source ranges a jump cut removes from a clip: filler words and long pauses
+export const detectJumpCuts = async (
+  videoUrl: string,
+  clip: VideoClip,
+  { removeFillers, minSilence }: { removeFillers: boolean; minSilence: number }
+): Promise<ClipSegment[]> => {
+  const silences = await getAudioEnvelope(videoUrl)
+    .then(envelope => findAudioSilences(envelope, clip, minSilence))
+    .catch(err => {
+      console.warn("Audio analysis failed, using word timings for pauses", err);
+      return findWordGaps(clip, minSilence);
+    });
+
+  const padded = silences
+    .map(s => ({ startTime: s.startTime + CUT_PADDING, endTime: s.endTime - CUT_PADDING }))
+    .filter(s => s.endTime > s.startTime);
+  const fillers = removeFillers ? findFillers(clip) : [];
+  return mergeRanges([...padded, ...fillers]).map(r => ({ startTime: round3(r.startTime), endTime: round3(r.endTime) }));
+};
+
+// What's left of each segment once the removed ranges are cut out, in play order
+const subtractRanges = (segments: ClipSegment[], removed: ClipSegment[]): ClipSegment[] => {
+  const cuts = mergeRanges(removed);
+  return segments.flatMap(segment => {
+    const pieces: ClipSegment[] = [];
+    let start = segment.startTime;
+    cuts.forEach(cut => {
+      if (cut.endTime <= start || cut.startTime >= segment.endTime) return;
+      if (cut.startTime > start) pieces.push({ startTime: start, endTime: cut.startTime });
+      start = Math.max(start, cut.endTime);
+    });
+    if (start < segment.endTime) pieces.push({ startTime: start, endTime: segment.endTime });
+    return pieces.filter(p => p.endTime - p.startTime >= MIN_KEPT);
+  });
+};
+
+// Move a caption onto the cut timeline. Words that were cut out are dropped (key words are
+// re-indexed to match); the caption goes if nothing of it is left.
+const remapCaption = (caption: Caption, mapTime: (t: number) => number | null): Caption | null => {
+  const mid = (start: number, end: number) => mapTime((start + end) / 2);
+  // Ends are exclusive, so map the instant just before them
+  const mapEnd = (end: number) => {
+    const mapped = mapTime(end - 0.001);
+    return mapped === null ? null : mapped + 0.001;
+  };
+
+  if (!caption.words || caption.words.length === 0) {
+    const center = mid(caption.start, caption.end);
+    const start = mapTime(caption.start) ?? center;
+    const end = mapEnd(caption.end) ?? center;
+    if (start === null || end === null || end - start < 0.05) return null;
+    return { ...caption, start: round3(start), end: round3(end) };
+  }
+
+  const keptIndices: number[] = [];
+  const words: CaptionWord[] = [];
+  caption.words.forEach((w, i) => {
+    const center = mid(w.start, w.end);
+    if (center === null) return;
+    keptIndices.push(i);
+    words.push({
+      ...w,
+      start: round3(mapTime(w.start) ?? center),
+      end: round3(Math.max(mapEnd(w.end) ?? center, center))
+    });
+  });
+  if (words.length === 0) return null;
+
+  const result: Caption = {
+    ...caption,
+    text: words.map(w => w.text).join(' '),
+    start: round3(Math.min(mapTime(caption.start) ?? words[0].start, words[0].start)),
+    end: round3(Math.max(mapEnd(caption.end) ?? words[words.length - 1].end, words[words.length - 1].end)),
+    words
+  };
+  if (caption.enrichment) {
+    const newIndex = (old: number) => keptIndices.filter(i => i < old).length;
+    result.enrichment = {
+      ...caption.enrichment,
+      highlights: caption.enrichment.highlights
+        .map(r => ({ start: newIndex(r.start), end: newIndex(r.end) }))
+        .filter(r => r.end > r.start)
+    };
+  }
+  return result;
+};
+
+// The clip as played and exported: with the jump cut applied when it's switched on.
+// Captions and the crop path are moved onto the shorter timeline.
+export const getEditedClip = (clip: VideoClip): VideoClip => {
+  const jumpCut = clip.jumpCut;
+  if (!jumpCut?.enabled || jumpCut.removed.length === 0) return clip;
+
+  const segments = subtractRanges(getClipSegments(clip), jumpCut.removed);
+  if (segments.length === 0) return clip;
+  const cut: VideoClip = { ...clip, segments };
+
+  const mapTime = (relativeTime: number): number | null => {
+    const source = toSourceTime(clip, relativeTime);
+    const index = findSegmentIndex(segments, source);
+    return index === -1 ? null : toClipTime(cut, source, index);
+  };
+
+  const captions = clip.captions
+    .map(c => remapCaption(c, mapTime))
+    .filter((c): c is Caption => c !== null);
+  const cropPath = clip.cropPath
+    ?.map(k => {
+      const time = mapTime(k.time);
+      return { ...k, time: time === null ? null : round3(time) };
+    })
+    .filter((k): k is CropKeyframe => k.time !== null);
+
+  return { ...cut, captions, ...(cropPath ? { cropPath } : {}) };
+};
+
+// Seconds a jump cut takes out of the clip
+export const getJumpCutSavings = (clip: VideoClip): number => {
+  if (!clip.jumpCut || clip.jumpCut.removed.length === 0) return 0;
+  const kept = subtractRanges(getClipSegments(clip), clip.jumpCut.removed);
+  const total = (segments: ClipSegment[]) => segments.reduce((sum, s) => sum + s.endTime - s.startTime, 0);
+  return total(getClipSegments(clip)) - total(kept);
+};
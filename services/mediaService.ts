@@ -0,0 +1,371 @@
+import { ClipSegment } from '../types';
+
+// Analysis (waveforms, silence detection) only needs loudness, so sources are decoded at a low
+// sample rate and reduced to an envelope; the PCM itself is never kept
+const ENVELOPE_SAMPLE_RATE = 8000;
+const ENVELOPE_STEP = 0.01; // seconds per envelope value
+const SEEK_TIMEOUT_MS = 10000; // a seek that takes longer than this isn't going to finish
+const FRAME_RATE_SAMPLES = 12;  // presented frames timed to measure a source's frame rate
+const FRAME_RATE_TIMEOUT_MS = 3000;
+// Measured rates are snapped to the nearest of these when close enough
+const STANDARD_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60];
+
+// Downsampled loudness of a file's audio (first channel): one peak and one RMS value per `step` seconds
+export interface AudioEnvelope {
+  step: number;
+  peaks: Float32Array; // 0-1
+  rms: Float32Array;
+}
+
+// Envelopes are small (a few MB for an hour), so keep one per source URL until it's released
+const envelopeCache = new Map<string, Promise<AudioEnvelope>>();
+
+// Aborted when a URL is released, so background work on a source stops with its project
+const sourceControllers = new Map<string, AbortController>();
+
+export const getSourceSignal = (url: string): AbortSignal => {
+  let controller = sourceControllers.get(url);
+  if (!controller) {
+    controller = new AbortController();
+    sourceControllers.set(url, controller);
+  }
+  return controller.signal;
+};
+
+// Reject as soon as `signal` aborts, even if `promise` never settles (e.g. a stuck seek)
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// Decode a media file's soundtrack. With `sampleRate` the audio is resampled while decoding,
+// which keeps the buffer small when only loudness is needed. `signal` (by default the source's)
+// stops the download, and a decode that hasn't started yet; decodeAudioData itself can't be
+// interrupted, so a decode that is under way only has its result dropped.
+export const decodeAudio = async (url: string, sampleRate?: number, signal: AbortSignal = getSourceSignal(url)): Promise<AudioBuffer> => {
+  const response = await fetch(url, { signal });
+  const data = await response.arrayBuffer();
+  signal.throwIfAborted();
+  if (sampleRate) {
+    // Offline contexts decode at their own rate and hold no audio device
+    return abortable(new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(data), signal);
+  }
+  const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+  const actx: AudioContext = new AudioContext();
+  try {
+    return await abortable(actx.decodeAudioData(data), signal);
+  } finally {
+    actx.close();
+  }
+};
+
+// A whole-source decode is large (about 1.4GB for an hour of 48kHz stereo), so exports share
+// one per source and sample rate for as long as anyone holds it
+interface SharedSoundtrack {
+  buffer: Promise<AudioBuffer>;
+  holders: number;
+  controller: AbortController;
+}
+
+const soundtracks = new Map<string, SharedSoundtrack>();
+
+// Borrow the decoded soundtrack of a source at `sampleRate`, decoding it if nobody holds it yet.
+// Call release() when done: once the last holder lets go the buffer is dropped and a download
+// still running stops. Releasing the source URL stops it too.
+export const holdSoundtrack = (url: string, sampleRate: number): { buffer: Promise<AudioBuffer>; release: () => void } => {
+  const key = `${sampleRate}:${url}`;
+  let shared = soundtracks.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const sourceSignal = getSourceSignal(url);
+    if (sourceSignal.aborted) controller.abort(sourceSignal.reason);
+    sourceSignal.addEventListener('abort', () => controller.abort(sourceSignal.reason), { once: true });
+    const buffer = decodeAudio(url, sampleRate, controller.signal);
+    buffer.catch(() => {}); // Every holder handles the failure itself
+    shared = { buffer, holders: 0, controller };
+    soundtracks.set(key, shared);
+  }
+
+  const entry = shared;
+  entry.holders++;
+  let released = false;
+  return {
+    buffer: entry.buffer,
+    release: () => {
+      if (released) return;
+      released = true;
+      if (--entry.holders > 0) return;
+      entry.controller.abort();
+      if (soundtracks.get(key) === entry) soundtracks.delete(key);
+    }
+  };
+};
+
+// The given source ranges of a decoded soundtrack, joined back to back (at most stereo)
+export const sliceAudioRanges = (full: AudioBuffer, ranges: ClipSegment[]): AudioBuffer => {
+  const rate = full.sampleRate;
+  const spans = ranges.map(r => ({
+    first: Math.max(0, Math.min(full.length, Math.floor(r.startTime * rate))),
+    last: Math.max(0, Math.min(full.length, Math.floor(r.endTime * rate)))
+  })).filter(span => span.last > span.first);
+
+  const joined = new AudioBuffer({
+    length: Math.max(1, spans.reduce((sum, span) => sum + span.last - span.first, 0)),
+    numberOfChannels: Math.min(2, full.numberOfChannels),
+    sampleRate: rate
+  });
+  for (let c = 0; c < joined.numberOfChannels; c++) {
+    const channel = full.getChannelData(c);
+    let offset = 0;
+    spans.forEach(span => {
+      joined.copyToChannel(channel.subarray(span.first, span.last), c, offset);
+      offset += span.last - span.first;
+    });
+  }
+  return joined;
+};
+
+const computeEnvelope = (buffer: AudioBuffer): AudioEnvelope => {
+  const data = buffer.getChannelData(0);
+  const windowSize = Math.max(1, Math.round(ENVELOPE_STEP * buffer.sampleRate));
+  const count = Math.ceil(data.length / windowSize);
+  const peaks = new Float32Array(count);
+  const rms = new Float32Array(count);
+  for (let w = 0; w < count; w++) {
+    const from = w * windowSize;
+    const to = Math.min(data.length, from + windowSize);
+    let peak = 0;
+    let sum = 0;
+    for (let i = from; i < to; i++) {
+      const v = data[i];
+      if (Math.abs(v) > peak) peak = Math.abs(v);
+      sum += v * v;
+    }
+    peaks[w] = peak;
+    rms[w] = Math.sqrt(sum / Math.max(1, to - from));
+  }
+  return { step: buffer.duration / count, peaks, rms };
+};
+
+// Loudness envelope of a source, decoded once per URL and shared by every waveform and analysis.
+// `signal` only stops this caller waiting; the decode itself stops when the URL is released.
+export const getAudioEnvelope = (url: string, signal?: AbortSignal): Promise<AudioEnvelope> => {
+  const cached = envelopeCache.get(url);
+  if (cached) return abortable(cached, signal);
+
+  const promise = decodeAudio(url, ENVELOPE_SAMPLE_RATE).then(computeEnvelope);
+  // Don't cache failures, a later call may succeed (e.g. after the blob finishes loading)
+  promise.catch(() => {
+    if (envelopeCache.get(url) === promise) envelopeCache.delete(url);
+  });
+  envelopeCache.set(url, promise);
+  return abortable(promise, signal);
+};
+
+// Revoke an object URL for a source or music file, stop its background jobs and drop
+// everything cached for it
+export const releaseMediaUrl = (url: string) => {
+  sourceControllers.get(url)?.abort();
+  sourceControllers.delete(url);
+  envelopeCache.delete(url);
+  URL.revokeObjectURL(url);
+};
+
+// Peak amplitude (0-1) for `buckets` equal slices of [start, end] seconds
+export const getWaveformPeaks = (envelope: AudioEnvelope, start: number, end: number, buckets: number): number[] => {
+  const { peaks, step } = envelope;
+  const first = Math.max(0, Math.floor(start / step));
+  const last = Math.min(peaks.length, Math.ceil(end / step));
+  const perBucket = (last - first) / buckets;
+
+  const result: number[] = [];
+  for (let b = 0; b < buckets; b++) {
+    const from = first + Math.floor(b * perBucket);
+    // Buckets narrower than one envelope value still show the value they fall in
+    const to = Math.min(last, Math.max(from + 1, first + Math.floor((b + 1) * perBucket)));
+    let peak = 0;
+    for (let i = from; i < to; i++) {
+      if (peaks[i] > peak) peak = peaks[i];
+    }
+    result.push(peak);
+  }
+  return result;
+};
+
+// Create a detached, muted video element and wait for its metadata
+export const loadVideo = (url: string): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.src = url;
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error("Failed to load video"));
+  });
+};
+
+// Drop a detached video's source so the browser frees its decoder and buffers
+export const releaseVideo = (video: HTMLVideoElement) => {
+  video.pause();
+  video.removeAttribute('src');
+  video.load();
+};
+
+// Length of a local video file in seconds
+export const getVideoDuration = async (file: File): Promise<number> => {
+  const url = URL.createObjectURL(file);
+  let video: HTMLVideoElement | null = null;
+  try {
+    video = await loadVideo(url);
+    return video.duration;
+  } finally {
+    if (video) releaseVideo(video);
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Seek and wait until the frame at `time` is available. Fails when the video errors, the
+// seek takes longer than SEEK_TIMEOUT_MS or `signal` aborts.
+export const seekVideo = (video: HTMLVideoElement, time: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error("Failed to seek video"));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Seek to ${time.toFixed(2)}s timed out`));
+    }, SEEK_TIMEOUT_MS);
+
+    if (signal?.aborted) return onAbort();
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+    video.currentTime = time;
+  });
+};
+
+// Grab `count` evenly spaced JPEG thumbnails between start and end (seconds). Stops at the
+// next seek when `signal` aborts.
+export const extractThumbnails = async (url: string, start: number, end: number, count: number, height = 72, signal?: AbortSignal): Promise<string[]> => {
+  const video = await loadVideo(url);
+  try {
+    signal?.throwIfAborted();
+    const canvas = document.createElement('canvas');
+    canvas.height = height;
+    canvas.width = Math.round(height * (video.videoWidth / video.videoHeight || 16 / 9));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return [];
+
+    const step = (end - start) / count;
+    const thumbs: string[] = [];
+    for (let i = 0; i < count; i++) {
+      await seekVideo(video, Math.min(video.duration, start + step * (i + 0.5)), signal);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      thumbs.push(canvas.toDataURL('image/jpeg', 0.6));
+    }
+    return thumbs;
+  } finally {
+    releaseVideo(video);
+  }
+};
+
+// Frames per second of a source, measured by playing a muted copy and timing the frames it
+// presents (requestVideoFrameCallback). Null when the browser can't tell, e.g. without
+// requestVideoFrameCallback or when playback is blocked.
+export const detectFrameRate = async (url: string, signal?: AbortSignal): Promise<number | null> => {
+  const video = await loadVideo(url);
+  if (!('requestVideoFrameCallback' in video)) {
+    releaseVideo(video);
+    return null;
+  }
+  // Kept in the document (but invisible) so the browser actually presents its frames
+  video.style.cssText = 'position:fixed;left:0;top:0;width:1px;height:1px;opacity:0;pointer-events:none';
+  document.body.appendChild(video);
+
+  try {
+    const mediaTimes = await abortable(new Promise<number[]>((resolve, reject) => {
+      const times: number[] = [];
+      const timer = setTimeout(() => resolve(times), FRAME_RATE_TIMEOUT_MS);
+      const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+        times.push(metadata.mediaTime);
+        if (times.length >= FRAME_RATE_SAMPLES) {
+          clearTimeout(timer);
+          resolve(times);
+        } else {
+          video.requestVideoFrameCallback(onFrame);
+        }
+      };
+      video.requestVideoFrameCallback(onFrame);
+      video.play().catch(err => {
+        clearTimeout(timer);
+        reject(err);
+      });
+    }), signal);
+
+    // Dropped frames only make gaps longer, so the shortest gap is one frame
+    const gaps = mediaTimes.slice(1).map((t, i) => t - mediaTimes[i]).filter(gap => gap > 0.001);
+    if (gaps.length < 3) return null;
+    const measured = 1 / Math.min(...gaps);
+    const standard = STANDARD_FRAME_RATES.reduce((best, rate) => (Math.abs(rate - measured) < Math.abs(best - measured) ? rate : best));
+    return Math.abs(standard - measured) / standard < 0.03 ? standard : Math.round(measured * 100) / 100;
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.warn("Could not measure the frame rate", err);
+    return null;
+  } finally {
+    releaseVideo(video);
+    video.remove();
+  }
+};
+
+// Helper to convert blob/file to base64, for APIs that take media inline
+export const fileToBase64 = async (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = reader.result as string;
+      // Remove data url prefix (e.g. "data:video/mp4;base64,")
+      const base64Data = base64String.split(',')[1];
+      resolve(base64Data);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
+// Trigger a browser download for an in-memory file
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// File-system friendly base name for everything exported from a clip
+export const getExportBaseName = (title: string) => `ClipGenius_${title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}`;
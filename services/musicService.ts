@@ -0,0 +1,98 @@
+import { Caption, MusicSettings, VideoClip } from '../types';
+import { getClipDuration } from './segmentService';
+
+const DUCK_RAMP = 0.25;   // seconds the music takes to dip before / recover after speech
+const SPEECH_GAP = 0.4;   // pauses shorter than this don't let the music come back up
+const CURVE_RATE = 50;    // gain automation points per second
+
+// A music file (object URL) with its mix settings, as handed to the preview and the export
+export interface MusicSource {
+  url: string;
+  settings: MusicSettings;
+}
+
+// The same, decoded
+export interface MusicTrack {
+  buffer: AudioBuffer;
+  settings: MusicSettings;
+}
+
+// When someone is speaking, from the caption timings (clip-relative, merged)
+const getSpeechRanges = (captions: Caption[]) => {
+  const ranges: { start: number; end: number }[] = [];
+  [...captions].sort((a, b) => a.start - b.start).forEach(c => {
+    const last = ranges[ranges.length - 1];
+    if (last && c.start - last.end < SPEECH_GAP) last.end = Math.max(last.end, c.end);
+    else ranges.push({ start: c.start, end: c.end });
+  });
+  return ranges;
+};
+
+// Music gain at a clip-relative time: volume, fades at both ends, and ducking that eases
+// in and out around speech
+const getMusicGain = (settings: MusicSettings, speech: { start: number; end: number }[], duration: number, t: number) => {
+  const fadeIn = settings.fadeIn > 0 ? t / settings.fadeIn : 1;
+  const fadeOut = settings.fadeOut > 0 ? (duration - t) / settings.fadeOut : 1;
+  const fade = Math.max(0, Math.min(1, fadeIn, fadeOut));
+
+  const distance = speech.reduce((min, r) => Math.min(min, t < r.start ? r.start - t : t > r.end ? t - r.end : 0), Infinity);
+  const duck = Math.max(0, 1 - distance / DUCK_RAMP) * (settings.ducking / 100);
+
+  return (settings.volume / 100) * fade * (1 - duck);
+};
+
+// Gain automation for the music from `from` seconds into the clip until its end
+const getGainCurve = (settings: MusicSettings, clip: VideoClip, from: number): Float32Array => {
+  const duration = getClipDuration(clip);
+  const speech = getSpeechRanges(clip.captions);
+  const points = Math.max(2, Math.ceil((duration - from) * CURVE_RATE) + 1);
+  const curve = new Float32Array(points);
+  for (let i = 0; i < points; i++) {
+    curve[i] = getMusicGain(settings, speech, duration, Math.min(duration, from + i / CURVE_RATE));
+  }
+  return curve;
+};
+
+// Start the (looping) music bed `from` seconds into the clip at context time `when`, routed to
+// every destination. The caller stops the returned source.
+export const startMusic = (
+  ctx: BaseAudioContext,
+  destinations: AudioNode[],
+  track: MusicTrack,
+  clip: VideoClip,
+  from: number,
+  when = ctx.currentTime
+): AudioBufferSourceNode => {
+  const source = ctx.createBufferSource();
+  source.buffer = track.buffer;
+  source.loop = true;
+
+  const gain = ctx.createGain();
+  const curve = getGainCurve(track.settings, clip, from);
+  gain.gain.value = curve[0];
+  gain.gain.setValueCurveAtTime(curve, when, (curve.length - 1) / CURVE_RATE);
+
+  source.connect(gain);
+  destinations.forEach(d => gain.connect(d));
+  source.start(when, from % track.buffer.duration);
+  return source;
+};
+
+// Offline mix of the clip's soundtrack (segments already joined, see sliceAudioRanges) and the
+// music bed, at the soundtrack's sample rate. Without a soundtrack the music alone is rendered.
+export const mixClipAudio = async (soundtrack: AudioBuffer | null, track: MusicTrack, clip: VideoClip): Promise<AudioBuffer> => {
+  const sampleRate = soundtrack?.sampleRate ?? track.buffer.sampleRate;
+  const channels = Math.min(2, Math.max(soundtrack?.numberOfChannels ?? 0, track.buffer.numberOfChannels));
+  const duration = getClipDuration(clip);
+  const ctx = new OfflineAudioContext(channels, Math.max(1, Math.ceil(duration * sampleRate)), sampleRate);
+
+  if (soundtrack) {
+    const source = ctx.createBufferSource();
+    source.buffer = soundtrack;
+    source.connect(ctx.destination);
+    source.start(0);
+  }
+  startMusic(ctx, [ctx.destination], track, clip, 0, 0);
+
+  return ctx.startRendering();
+};
@@ -0,0 +1,107 @@
+import { Caption, ClipSegment, VideoClip } from '../types';
+import { ClipAnalysisProvider, AnalysisOptions, TranscribeOptions, buildAnalysisPrompt, buildTranscriptionPrompt, parseCaptionsResponse, parseClipsResponse } from './analysisProvider';
+import { fileToBase64 } from './mediaService';
+
+// Any server speaking the OpenAI chat completions API with video input
+// (e.g. vLLM or a local stand-in model), configured in .env.local
+const BASE_URL = process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:8000/v1';
+const API_KEY = process.env.OPENAI_COMPATIBLE_API_KEY;
+const MODEL = process.env.OPENAI_COMPATIBLE_MODEL || 'default';
+
+const analyzeWithOpenAiCompatible = async (file: File, { searchQuery, onProgress }: AnalysisOptions): Promise<VideoClip[]> => {
+  try {
+    onProgress?.({ status: 'UPLOADING', message: "Preparing video...", progress: 0 });
+    const base64Data = await fileToBase64(file);
+    onProgress?.({ status: 'ANALYZING' });
+
+    const prompt = `${buildAnalysisPrompt(searchQuery)}
+    Respond ONLY with a JSON object of the form {"clips": [ ...segments ]}.
+    `;
+
+    const response = await fetch(`${BASE_URL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(API_KEY ? { Authorization: `Bearer ${API_KEY}` } : {})
+      },
+      body: JSON.stringify({
+        model: MODEL,
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'video_url', video_url: { url: `data:${file.type};base64,${base64Data}` } },
+              { type: 'text', text: prompt }
+            ]
+          }
+        ]
+      })
+    });
+
+    if (!response.ok) throw new Error(`Analysis endpoint returned ${response.status}`);
+    const data = await response.json();
+    const text: string | undefined = data?.choices?.[0]?.message?.content;
+    if (!text) throw new Error("No response from AI");
+
+    return parseClipsResponse(text, 'generated');
+
+  } catch (error) {
+    console.error("OpenAI-compatible Analysis Error:", error);
+    throw error;
+  }
+};
+
+// The whole video is always sent; for a range the prompt limits the transcript to it
+const transcribeWithOpenAiCompatible = async (file: File, range?: ClipSegment, { onProgress, signal }: TranscribeOptions = {}): Promise<Caption[]> => {
+  try {
+    onProgress?.({ status: 'UPLOADING', message: "Preparing video...", progress: 0 });
+    const base64Data = await fileToBase64(file);
+    signal?.throwIfAborted();
+    onProgress?.({ status: 'ANALYZING' });
+    const prompt = `${buildTranscriptionPrompt(range)}
+    Respond ONLY with a JSON object of the form {"captions": [ ...captions ]}.
+    `;
+
+    const response = await fetch(`${BASE_URL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(API_KEY ? { Authorization: `Bearer ${API_KEY}` } : {})
+      },
+      body: JSON.stringify({
+        model: MODEL,
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'video_url', video_url: { url: `data:${file.type};base64,${base64Data}` } },
+              { type: 'text', text: prompt }
+            ]
+          }
+        ]
+      }),
+      signal
+    });
+
+    if (!response.ok) throw new Error(`Transcription endpoint returned ${response.status}`);
+    const data = await response.json();
+    const text: string | undefined = data?.choices?.[0]?.message?.content;
+    if (!text) throw new Error("No response from AI");
+
+    return parseCaptionsResponse(text);
+
+  } catch (error) {
+    console.error("OpenAI-compatible Transcription Error:", error);
+    throw error;
+  }
+};
+
+export const openAiCompatibleProvider: ClipAnalysisProvider = {
+  id: 'openai-compatible',
+  name: 'Local model',
+  analyze: analyzeWithOpenAiCompatible,
+  canTranscribeRange: false, // Every request carries the whole video inline
+  transcribe: transcribeWithOpenAiCompatible
+};
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CaptionPreset, ClipStyle } from '../types';
+import { presetService } from './presetService';
+import { fontStore } from './projectService';
+
+// Fonts live in IndexedDB, which doesn't exist here
+vi.mock('./projectService', () => ({ fontStore: { listFonts: vi.fn(), saveFonts: vi.fn() } }));
+
+const fontLoad = vi.fn();
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key)
+  });
+  vi.stubGlobal('FontFace', class { load = fontLoad; });
+  vi.stubGlobal('document', { fonts: { add: vi.fn() } });
+  fontLoad.mockResolvedValue(undefined);
+  vi.mocked(fontStore.listFonts).mockResolvedValue([]);
+  vi.mocked(fontStore.saveFonts).mockResolvedValue();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+});
+
+const preset = (id: string, style: Partial<CaptionPreset['style']> = {}): CaptionPreset => ({
+  id,
+  name: `Preset ${id}`,
+  templateId: ClipStyle.BOLD,
+  style: { textColor: '#ffffff', backgroundColor: '#000000', bgOpacity: 0.5, fontWeight: '700', ...style }
+});
+const fontUrl = 'data:font/ttf;base64,AAAA';
+
+describe('presetService presets', () => {
+  it('saves, replaces and deletes presets by id', () => {
+    presetService.savePreset(preset('a'));
+    presetService.savePreset(preset('b'));
+    presetService.savePreset({ ...preset('a'), name: 'Renamed' });
+
+    expect(presetService.listPresets().map(p => [p.id, p.name])).toEqual([['b', 'Preset b'], ['a', 'Renamed']]);
+    expect(presetService.deletePreset('b').map(p => p.id)).toEqual(['a']);
+  });
+
+  it('skips stored presets that are not valid', () => {
+    localStorage.setItem('clipgenius_caption_presets', JSON.stringify([preset('a'), { id: 'b' }, null]));
+
+    expect(presetService.listPresets().map(p => p.id)).toEqual(['a']);
+  });
+});
+
+describe('presetService.importPresets', () => {
+  it.each([
+    ['a file that is not JSON', 'presets', 'The file is not valid JSON.'],
+    ['a file without presets', '{"fonts":[]}', 'No caption presets found in this file.'],
+    ['a file with only invalid presets', '{"presets":[{"id":"a"}]}', 'No caption presets found in this file.']
+  ])('rejects %s', async (_name, json, message) => {
+    await expect(presetService.importPresets(json)).rejects.toThrow(message);
+  });
+
+  it.each([
+    ['all the optional overrides', { fontSize: 64, outlineColor: '#000', outlineWidth: 0, positionY: 1, highlightColor: '#ff0', animation: 'fade', emphasis: 'bounce' }, true],
+    ['a font size of zero', { fontSize: 0 }, false],
+    ['a position below the frame', { positionY: 1.5 }, false],
+    ['a negative outline', { outlineWidth: -1 }, false],
+    ['an unknown animation', { animation: 'spin' }, false],
+    ['an unknown emphasis', { emphasis: 'wiggle' }, false],
+    ['a color that is not text', { textColor: 0xffffff }, false]
+  ])('checks a style with %s', async (_name, style, accepted) => {
+    const json = JSON.stringify({ presets: [preset('a'), preset('b', style as Partial<CaptionPreset['style']>)] });
+
+    expect((await presetService.importPresets(json)).map(p => p.id)).toEqual(accepted ? ['a', 'b'] : ['a']);
+  });
+
+  it('replaces presets with the same id and keeps the others', async () => {
+    presetService.savePreset(preset('a'));
+    presetService.savePreset(preset('b'));
+
+    const presets = await presetService.importPresets(JSON.stringify({ presets: [{ ...preset('a'), name: 'Imported' }] }));
+
+    expect(presets.map(p => [p.id, p.name])).toEqual([['b', 'Preset b'], ['a', 'Imported']]);
+    expect(presetService.listPresets()).toEqual(presets);
+  });
+
+  it.each([
+    ['punctuation', 'My<Font>!', 'My Font'],
+    ['a CSS injection attempt', 'X"; } body { color: red', 'X body color red'],
+    ['nothing usable', '***', 'Custom Font']
+  ])('cleans up a font name with %s and points the presets at the new name', async (_name, family, cleaned) => {
+    const json = JSON.stringify({ presets: [preset('a', { fontFamily: family })], fonts: [{ family, dataUrl: fontUrl }] });
+
+    const [imported] = await presetService.importPresets(json);
+
+    expect(imported.style.fontFamily).toBe(cleaned);
+    expect(fontStore.saveFonts).toHaveBeenCalledWith([{ family: cleaned, dataUrl: fontUrl }]);
+  });
+
+  it('skips fonts that are not data URLs, too large or cannot be loaded', async () => {
+    fontLoad.mockRejectedValueOnce(new Error('Bad font'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const json = JSON.stringify({
+      presets: [preset('a')],
+      fonts: [
+        { family: 'Broken', dataUrl: fontUrl },
+        { family: 'Remote', dataUrl: 'https://example.com/font.ttf' },
+        { family: 'Huge', dataUrl: `data:font/ttf;base64,${'A'.repeat(3 * 1024 * 1024)}` },
+        { family: 'Good', dataUrl: fontUrl }
+      ]
+    });
+
+    await presetService.importPresets(json);
+
+    expect(fontStore.saveFonts).toHaveBeenCalledWith([{ family: 'Good', dataUrl: fontUrl }]);
+  });
+});
+
+describe('presetService.addFont', () => {
+  it.each([
+    ['a file that is not a font', new File(['x'], 'notes.txt'), 'Please upload a TTF, OTF, WOFF or WOFF2 font.'],
+    ['a font over 2MB', new File([new Uint8Array(2 * 1024 * 1024 + 1)], 'Big.ttf'), 'Font files must be smaller than 2MB.']
+  ])('rejects %s', async (_name, file, message) => {
+    await expect(presetService.addFont(file)).rejects.toThrow(message);
+    expect(fontStore.saveFonts).not.toHaveBeenCalled();
+  });
+});
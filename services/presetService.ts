@@ -0,0 +1,207 @@
+import { CaptionPreset, ClipStyle, CustomCaptionStyle, UploadedFont } from '../types';
+import { CAPTION_ANIMATIONS, EMPHASIS_ANIMATIONS } from '../constants';
+import { fontStore } from './projectService';
+
+const STORAGE_KEYS = {
+  PRESETS: 'clipgenius_caption_presets',
+  LEGACY_FONTS: 'clipgenius_fonts' // Fonts were kept in localStorage before they moved to IndexedDB
+};
+
+// Fonts are stored (and shared in preset files) as data URLs, so keep them reasonably small
+const MAX_FONT_SIZE = 2 * 1024 * 1024;
+const FONT_EXTENSIONS = /\.(ttf|otf|woff2?)$/i;
+const PRESET_FILE_VERSION = 1;
+
+export interface PresetFile {
+  version: number;
+  presets: CaptionPreset[];
+  fonts: UploadedFont[]; // Uploaded fonts used by the presets
+}
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null') ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error("Failed to save to local storage", err);
+    throw new Error("Not enough browser storage left. Delete some presets and try again.");
+  }
+};
+
+const saveFonts = async (fonts: UploadedFont[]) => {
+  try {
+    await fontStore.saveFonts(fonts);
+  } catch (err) {
+    console.error("Failed to save fonts", err);
+    throw new Error("Not enough browser storage left. Delete some projects and try again.");
+  }
+};
+
+// Move fonts saved by older versions out of localStorage, once per session
+let legacyFontsMigration: Promise<void> | null = null;
+const migrateLegacyFonts = (): Promise<void> => {
+  legacyFontsMigration ??= (async () => {
+    const legacy = readJson<unknown[]>(STORAGE_KEYS.LEGACY_FONTS, []);
+    if (!Array.isArray(legacy) || legacy.length === 0) return;
+    await fontStore.saveFonts(legacy.filter(isFont));
+    localStorage.removeItem(STORAGE_KEYS.LEGACY_FONTS);
+  })().catch(err => console.error("Failed to move fonts to IndexedDB", err));
+  return legacyFontsMigration;
+};
+
+const readAsDataUrl = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const registeredFonts = new Set<string>();
+
+// Make an uploaded font available to CSS and canvas text
+const registerFont = async (font: UploadedFont) => {
+  if (registeredFonts.has(font.family)) return;
+  const face = new FontFace(font.family, `url(${font.dataUrl})`);
+  await face.load();
+  document.fonts.add(face);
+  registeredFonts.add(font.family);
+};
+
+// Font family names are made of letters, digits, spaces and dashes so they're safe in CSS
+const toFontFamily = (name: string) => name.replace(/[^\w\s-]/g, ' ').replace(/\s+/g, ' ').trim() || 'Custom Font';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isOptional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || check(value);
+const isString = (value: unknown) => typeof value === 'string';
+const isFiniteNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+// The required fields and every optional override that is set
+const isCustomStyle = (value: unknown): value is CustomCaptionStyle =>
+  isRecord(value) && isString(value.textColor) && isString(value.backgroundColor) &&
+  isFiniteNumber(value.bgOpacity) && isString(value.fontWeight) &&
+  isOptional(value.fontFamily, isString) &&
+  isOptional(value.fontSize, v => isFiniteNumber(v) && (v as number) > 0) &&
+  isOptional(value.outlineColor, isString) &&
+  isOptional(value.outlineWidth, v => isFiniteNumber(v) && (v as number) >= 0) &&
+  isOptional(value.positionY, v => isFiniteNumber(v) && (v as number) >= 0 && (v as number) <= 1) &&
+  isOptional(value.highlightColor, isString) &&
+  isOptional(value.animation, v => isString(v) && Object.hasOwn(CAPTION_ANIMATIONS, v as string)) &&
+  isOptional(value.emphasis, v => isString(v) && Object.hasOwn(EMPHASIS_ANIMATIONS, v as string));
+
+const isPreset = (value: unknown): value is CaptionPreset =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' &&
+  Object.values(ClipStyle).includes(value.templateId as ClipStyle) && isCustomStyle(value.style);
+
+const isFont = (value: unknown): value is UploadedFont =>
+  isRecord(value) && typeof value.family === 'string' && typeof value.dataUrl === 'string' && value.dataUrl.startsWith('data:');
+
+export const createPresetId = () => `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const presetService = {
+  listPresets: (): CaptionPreset[] => {
+    return readJson<CaptionPreset[]>(STORAGE_KEYS.PRESETS, []).filter(isPreset);
+  },
+
+  // Insert or replace (by id); returns the updated list
+  savePreset: (preset: CaptionPreset): CaptionPreset[] => {
+    const presets = [...presetService.listPresets().filter(p => p.id !== preset.id), preset];
+    writeJson(STORAGE_KEYS.PRESETS, presets);
+    return presets;
+  },
+
+  deletePreset: (id: string): CaptionPreset[] => {
+    const presets = presetService.listPresets().filter(p => p.id !== id);
+    writeJson(STORAGE_KEYS.PRESETS, presets);
+    return presets;
+  },
+
+  listFonts: async (): Promise<UploadedFont[]> => {
+    await migrateLegacyFonts();
+    return (await fontStore.listFonts()).filter(isFont);
+  },
+
+  // Store a TTF/OTF/WOFF/WOFF2 file and register it; the family is named after the file
+  addFont: async (file: File): Promise<UploadedFont> => {
+    if (!FONT_EXTENSIONS.test(file.name)) throw new Error("Please upload a TTF, OTF, WOFF or WOFF2 font.");
+    if (file.size > MAX_FONT_SIZE) throw new Error("Font files must be smaller than 2MB.");
+
+    const family = toFontFamily(file.name.replace(FONT_EXTENSIONS, ''));
+    const font: UploadedFont = { family, dataUrl: await readAsDataUrl(file) };
+    registeredFonts.delete(family); // Replacing a font with the same name
+    await registerFont(font).catch(() => { throw new Error("This file could not be read as a font."); });
+
+    await saveFonts([font]);
+    return font;
+  },
+
+  // Load every stored font into the document (call once on startup)
+  registerFonts: async () => {
+    await Promise.all((await presetService.listFonts()).map(font =>
+      registerFont(font).catch(err => console.error(`Failed to load font "${font.family}"`, err))
+    ));
+  },
+
+  // JSON for sharing presets, bundling the uploaded fonts they use
+  exportPresets: async (presets: CaptionPreset[]): Promise<string> => {
+    const families = new Set(presets.map(p => p.style.fontFamily));
+    const file: PresetFile = {
+      version: PRESET_FILE_VERSION,
+      presets,
+      fonts: (await presetService.listFonts()).filter(f => families.has(f.family))
+    };
+    return JSON.stringify(file, null, 2);
+  },
+
+  // Merge presets (and their fonts) from an exported JSON file; returns the updated list.
+  // Imports go through the same checks as locally created presets and uploaded fonts.
+  importPresets: async (json: string): Promise<CaptionPreset[]> => {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error("The file is not valid JSON.");
+    }
+    if (!isRecord(data)) throw new Error("No caption presets found in this file.");
+    const valid = Array.isArray(data.presets) ? data.presets.filter(isPreset) : [];
+    if (valid.length === 0) throw new Error("No caption presets found in this file.");
+
+    // Font names are cleaned up like an upload's; presets follow their font to the new name
+    const renamed = new Map<string, string>();
+    const candidates = (Array.isArray(data.fonts) ? data.fonts.filter(isFont) : [])
+      .filter(font => font.dataUrl.length * 0.75 <= MAX_FONT_SIZE * 1.01) // base64 is 4/3 the size
+      .map(font => {
+        const family = toFontFamily(font.family);
+        renamed.set(font.family, family);
+        return { family, dataUrl: font.dataUrl };
+      });
+    const loaded = await Promise.all(candidates.map(async font => {
+      registeredFonts.delete(font.family); // Replacing a font with the same name
+      try {
+        await registerFont(font);
+        return font;
+      } catch (err) {
+        console.error(`Failed to load font "${font.family}"`, err);
+        return null;
+      }
+    }));
+    const fonts = loaded.filter((font): font is UploadedFont => font !== null);
+    if (fonts.length > 0) await saveFonts(fonts);
+
+    const imported = valid.map(preset => {
+      const fontFamily = preset.style.fontFamily && renamed.get(preset.style.fontFamily);
+      return fontFamily ? { ...preset, style: { ...preset.style, fontFamily } } : preset;
+    });
+
+    const ids = new Set(imported.map(p => p.id));
+    const presets = [...presetService.listPresets().filter(p => !ids.has(p.id)), ...imported];
+    writeJson(STORAGE_KEYS.PRESETS, presets);
+    return presets;
+  }
+};
@@ -0,0 +1,150 @@
+import { Project, UploadedFont } from '../types';
+
+const DB_NAME = 'clipgenius';
+const DB_VERSION = 3;
+
+const STORES = {
+  PROJECTS: 'projects', // Project records (small, listed on the home view)
+  VIDEOS: 'videos',     // Source video blobs keyed by project id
+  MUSIC: 'music',       // Background music blobs keyed by project id
+  FONTS: 'fonts'        // Uploaded caption fonts keyed by family (shared by all projects)
+};
+
+const MAX_RECENT_PROJECTS = 10;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.PROJECTS)) {
+        db.createObjectStore(STORES.PROJECTS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.VIDEOS)) {
+        db.createObjectStore(STORES.VIDEOS);
+      }
+      if (!db.objectStoreNames.contains(STORES.MUSIC)) {
+        db.createObjectStore(STORES.MUSIC);
+      }
+      if (!db.objectStoreNames.contains(STORES.FONTS)) {
+        db.createObjectStore(STORES.FONTS, { keyPath: 'family' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+// Wrap an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const createProjectId = () => `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const projectService = {
+  // Create a project together with its source video
+  createProject: async (project: Project, video: Blob): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction([STORES.PROJECTS, STORES.VIDEOS], 'readwrite');
+    tx.objectStore(STORES.PROJECTS).put(project);
+    tx.objectStore(STORES.VIDEOS).put(video, project.id);
+    await transactionDone(tx);
+    // The project is stored at this point; failing to clear out old ones doesn't undo that
+    await projectService.pruneProjects().catch(err => console.error("Failed to prune old projects", err));
+  },
+
+  // Update the analysis result / editor settings of an existing project
+  saveProject: async (project: Project): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(STORES.PROJECTS, 'readwrite');
+    tx.objectStore(STORES.PROJECTS).put({ ...project, updatedAt: Date.now() });
+    await transactionDone(tx);
+  },
+
+  // Most recently edited first
+  listProjects: async (): Promise<Project[]> => {
+    const db = await openDb();
+    const tx = db.transaction(STORES.PROJECTS, 'readonly');
+    const projects = await promisify(tx.objectStore(STORES.PROJECTS).getAll() as IDBRequest<Project[]>);
+    return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+
+  loadProject: async (id: string): Promise<{ project: Project; video: File } | null> => {
+    const db = await openDb();
+    const tx = db.transaction([STORES.PROJECTS, STORES.VIDEOS], 'readonly');
+    const [project, blob] = await Promise.all([
+      promisify(tx.objectStore(STORES.PROJECTS).get(id) as IDBRequest<Project | undefined>),
+      promisify(tx.objectStore(STORES.VIDEOS).get(id) as IDBRequest<Blob | undefined>)
+    ]);
+    if (!project || !blob) return null;
+    return { project, video: new File([blob], project.videoName, { type: project.videoType }) };
+  },
+
+  // Store the project's background music, or remove it with null
+  saveMusic: async (id: string, music: Blob | null): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(STORES.MUSIC, 'readwrite');
+    if (music) tx.objectStore(STORES.MUSIC).put(music, id);
+    else tx.objectStore(STORES.MUSIC).delete(id);
+    await transactionDone(tx);
+  },
+
+  loadMusic: async (id: string): Promise<Blob | null> => {
+    const db = await openDb();
+    const tx = db.transaction(STORES.MUSIC, 'readonly');
+    const blob = await promisify(tx.objectStore(STORES.MUSIC).get(id) as IDBRequest<Blob | undefined>);
+    return blob || null;
+  },
+
+  deleteProject: async (id: string): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction([STORES.PROJECTS, STORES.VIDEOS, STORES.MUSIC], 'readwrite');
+    tx.objectStore(STORES.PROJECTS).delete(id);
+    tx.objectStore(STORES.VIDEOS).delete(id);
+    tx.objectStore(STORES.MUSIC).delete(id);
+    await transactionDone(tx);
+  },
+
+  // Source videos are large, so only keep the most recent projects around
+  pruneProjects: async (): Promise<void> => {
+    const projects = await projectService.listProjects();
+    await Promise.all(projects.slice(MAX_RECENT_PROJECTS).map(p => projectService.deleteProject(p.id)));
+  }
+};
+
+// Uploaded fonts live in the same database as projects: they are too big for localStorage
+export const fontStore = {
+  listFonts: async (): Promise<UploadedFont[]> => {
+    const db = await openDb();
+    const tx = db.transaction(STORES.FONTS, 'readonly');
+    return promisify(tx.objectStore(STORES.FONTS).getAll() as IDBRequest<UploadedFont[]>);
+  },
+
+  // Insert or replace (by family)
+  saveFonts: async (fonts: UploadedFont[]): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(STORES.FONTS, 'readwrite');
+    fonts.forEach(font => tx.objectStore(STORES.FONTS).put(font));
+    await transactionDone(tx);
+  }
+};
@@ -0,0 +1,193 @@
+import { CropKeyframe, VideoClip } from '../types';
+import { loadVideo, releaseVideo, seekVideo } from './mediaService';
+import { getClipDuration, toSourceTime } from './segmentService';
+
+export const CENTER_CROP = { x: 0.5, y: 0.5 };
+
+const SAMPLE_INTERVAL = 0.5; // seconds between detection samples
+const SMOOTHING_WINDOW = 5;  // samples in the moving average
+const MIN_KEYFRAME_SHIFT = 0.04; // ignore movements smaller than this (fraction of the frame)
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Ease-in-out so the crop accelerates and settles gently between keyframes
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+// Crop center (0-1 of the source frame) at a clip-relative time
+export const getCropCenter = (path: CropKeyframe[] | undefined, relativeTime: number): { x: number; y: number } => {
+  if (!path || path.length === 0) return CENTER_CROP;
+  if (relativeTime <= path[0].time) return path[0];
+  const last = path[path.length - 1];
+  if (relativeTime >= last.time) return last;
+
+  const nextIndex = path.findIndex(k => k.time > relativeTime);
+  const a = path[nextIndex - 1];
+  const b = path[nextIndex];
+  const t = smoothstep((relativeTime - a.time) / (b.time - a.time));
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+};
+
+// Source rectangle to draw so that a `srcW`x`srcH` frame covers a `dstW`x`dstH`
+// output, centered as close to `center` as the frame edges allow
+export const getCoverRect = (srcW: number, srcH: number, dstW: number, dstH: number, center: { x: number; y: number }) => {
+  const scale = Math.max(dstW / srcW, dstH / srcH);
+  const sw = dstW / scale;
+  const sh = dstH / scale;
+  const sx = Math.max(0, Math.min(srcW - sw, center.x * srcW - sw / 2));
+  const sy = Math.max(0, Math.min(srcH - sh, center.y * srcH - sh / 2));
+  return { sx, sy, sw, sh };
+};
+
+// CSS object-position equivalent of getCoverRect for an `object-fit: cover` element
+export const getObjectPosition = (srcW: number, srcH: number, dstW: number, dstH: number, center: { x: number; y: number }) => {
+  const { sx, sy, sw, sh } = getCoverRect(srcW, srcH, dstW, dstH, center);
+  const px = srcW - sw > 0 ? (sx / (srcW - sw)) * 100 : 50;
+  const py = srcH - sh > 0 ? (sy / (srcH - sh)) * 100 : 50;
+  return `${px}% ${py}%`;
+};
+
+// Insert or replace the keyframe at `time`, keeping the path sorted
+export const setKeyframe = (path: CropKeyframe[] | undefined, keyframe: CropKeyframe, tolerance = 0.25): CropKeyframe[] => {
+  const rest = (path || []).filter(k => Math.abs(k.time - keyframe.time) > tolerance);
+  return [...rest, keyframe].sort((a, b) => a.time - b.time);
+};
+
+// Moving average over raw detections, then drop keyframes that barely move
+export const smoothCropPath = (samples: CropKeyframe[]): CropKeyframe[] => {
+  if (samples.length === 0) return [];
+  const half = Math.floor(SMOOTHING_WINDOW / 2);
+  const averaged = samples.map((s, i) => {
+    const window = samples.slice(Math.max(0, i - half), i + half + 1);
+    return {
+      time: s.time,
+      x: window.reduce((sum, k) => sum + k.x, 0) / window.length,
+      y: window.reduce((sum, k) => sum + k.y, 0) / window.length
+    };
+  });
+
+  const result: CropKeyframe[] = [averaged[0]];
+  for (const k of averaged.slice(1)) {
+    const prev = result[result.length - 1];
+    if (Math.abs(k.x - prev.x) >= MIN_KEYFRAME_SHIFT || Math.abs(k.y - prev.y) >= MIN_KEYFRAME_SHIFT) {
+      result.push(k);
+    }
+  }
+  // Hold the last position until the end of the clip
+  const last = averaged[averaged.length - 1];
+  if (result[result.length - 1].time !== last.time) result.push({ ...result[result.length - 1], time: last.time });
+  return result.map(k => ({ time: Math.round(k.time * 1000) / 1000, x: clamp01(k.x), y: clamp01(k.y) }));
+};
+
+// The part of the Shape Detection API's FaceDetector used here (not in the DOM typings)
+interface FaceDetector {
+  detect: (source: ImageBitmapSource) => Promise<{ boundingBox: DOMRectReadOnly }[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetector;
+
+// Browser face detection (Shape Detection API), where available
+const createFaceDetector = (): FaceDetector | null => {
+  const FaceDetector = (window as Window & { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+  if (!FaceDetector) return null;
+  try {
+    return new FaceDetector({ fastMode: true, maxDetectedFaces: 3 });
+  } catch {
+    return null;
+  }
+};
+
+// Centroid of the pixels that changed between two downscaled frames
+const motionCentroid = (prev: Uint8ClampedArray, curr: Uint8ClampedArray, width: number, height: number) => {
+  let total = 0, sumX = 0, sumY = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const diff = Math.abs(curr[i] - prev[i]) + Math.abs(curr[i + 1] - prev[i + 1]) + Math.abs(curr[i + 2] - prev[i + 2]);
+      if (diff > 60) {
+        total += diff;
+        sumX += x * diff;
+        sumY += y * diff;
+      }
+    }
+  }
+  if (total === 0) return null;
+  return { x: sumX / total / width, y: sumY / total / height };
+};
+
+// Sample the clip and follow the speaker: the largest detected face, or the
+// area with the most motion when face detection isn't supported. Stops when `signal` aborts.
+export const detectSubjectPath = async (
+  videoUrl: string,
+  clip: VideoClip,
+  onProgress?: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<CropKeyframe[]> => {
+  signal?.throwIfAborted();
+  const video = await loadVideo(videoUrl);
+  try {
+    signal?.throwIfAborted();
+    // Some sources report no dimensions until decoding starts; faces need the real size,
+    // motion works at any size
+    const hasSize = video.videoWidth > 0 && video.videoHeight > 0;
+    const detector = hasSize ? createFaceDetector() : null;
+
+    const full = document.createElement('canvas');
+    full.width = Math.max(1, video.videoWidth);
+    full.height = Math.max(1, video.videoHeight);
+    const fullCtx = full.getContext('2d');
+
+    const small = document.createElement('canvas');
+    small.width = 64;
+    small.height = Math.max(1, Math.round(64 * (video.videoHeight / video.videoWidth || 9 / 16)));
+    const smallCtx = small.getContext('2d', { willReadFrequently: true });
+    if (!fullCtx || !smallCtx) return [];
+
+    const duration = getClipDuration(clip);
+    const samples: CropKeyframe[] = [];
+    let prevFrame: Uint8ClampedArray | null = null;
+    let lastCenter = CENTER_CROP;
+    let lastSourceTime = -Infinity;
+
+    for (let t = 0; t <= duration; t += SAMPLE_INTERVAL) {
+      const sourceTime = toSourceTime(clip, t);
+      // A supercut cut to another segment: motion against the previous shot means nothing
+      if (Math.abs(sourceTime - lastSourceTime - SAMPLE_INTERVAL) > 0.01) prevFrame = null;
+      lastSourceTime = sourceTime;
+      await seekVideo(video, sourceTime, signal);
+      let center: { x: number; y: number } | null = null;
+
+      if (detector) {
+        fullCtx.drawImage(video, 0, 0);
+        const faces = await detector.detect(full).catch(() => []);
+        signal?.throwIfAborted();
+        if (faces.length > 0) {
+          const largest = faces.reduce((a, b) => (b.boundingBox.width * b.boundingBox.height > a.boundingBox.width * a.boundingBox.height ? b : a));
+          const box = largest.boundingBox;
+          center = { x: (box.x + box.width / 2) / full.width, y: (box.y + box.height / 2) / full.height };
+        }
+      }
+
+      smallCtx.drawImage(video, 0, 0, small.width, small.height);
+      const frame = smallCtx.getImageData(0, 0, small.width, small.height).data;
+      if (!center && prevFrame) {
+        center = motionCentroid(prevFrame, frame, small.width, small.height);
+      }
+      prevFrame = frame;
+
+      // Nothing found: hold the previous position
+      lastCenter = center || lastCenter;
+      samples.push({ time: t, ...lastCenter });
+      onProgress?.(Math.min(100, (t / duration) * 100));
+    }
+
+    return smoothCropPath(samples);
+  } finally {
+    releaseVideo(video);
+  }
+};
+
+// Keep keyframes aligned with the footage after the clip's in-point moves by `startDelta` seconds
+export const rebaseCropPath = (path: CropKeyframe[] | undefined, startDelta: number): CropKeyframe[] | undefined => {
+  if (!path) return undefined;
+  return path.map(k => ({ ...k, time: Math.round((k.time - startDelta) * 1000) / 1000 }));
+};
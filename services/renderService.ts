@@ -0,0 +1,63 @@
+import { FitMode, VideoClip, Template, CustomCaptionStyle, SpeakerSettings } from '../types';
+import { drawCaptions } from './captionRenderer';
+import { getCoverRect, getCropCenter } from './reframeService';
+
+// Blur fill backdrop: a blurred, darkened cover copy of the frame filling the canvas. Shared by
+// the export and the preview so both look the same at any canvas size.
+export const drawBlurBackdrop = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement) => {
+  const w = ctx.canvas.width;
+  const h = ctx.canvas.height;
+  if (!video.videoWidth || !video.videoHeight) return;
+  const { sx, sy, sw, sh } = getCoverRect(video.videoWidth, video.videoHeight, w, h, { x: 0.5, y: 0.5 });
+  ctx.save();
+  ctx.filter = `blur(${Math.round(Math.min(w, h) / 25)}px) brightness(0.6)`;
+  ctx.drawImage(video, sx, sy, sw, sh, -w * 0.05, -h * 0.05, w * 1.1, h * 1.1);
+  ctx.restore();
+};
+
+// Draw one video frame into the whole canvas using the chosen fit mode.
+// `center` is the crop center (0-1 of the source) used when cropping.
+export const drawVideoFrame = (
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  fitMode: FitMode,
+  center: { x: number; y: number }
+) => {
+  const w = ctx.canvas.width;
+  const h = ctx.canvas.height;
+  const vw = video.videoWidth;
+  const vh = video.videoHeight;
+
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, w, h);
+  if (!vw || !vh) return;
+
+  if (fitMode === 'crop') {
+    const { sx, sy, sw, sh } = getCoverRect(vw, vh, w, h, center);
+    ctx.drawImage(video, sx, sy, sw, sh, 0, 0, w, h);
+    return;
+  }
+
+  if (fitMode === 'blur') drawBlurBackdrop(ctx, video);
+
+  // Contain: the whole source frame, centered
+  const scale = Math.min(w / vw, h / vh);
+  const dw = vw * scale;
+  const dh = vh * scale;
+  ctx.drawImage(video, (w - dw) / 2, (h - dh) / 2, dw, dh);
+};
+
+// Composite one output frame: the video (already seeked to `relativeTime`) plus captions
+export const drawClipFrame = (
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  clip: VideoClip,
+  relativeTime: number,
+  template: Template,
+  customStyle: CustomCaptionStyle,
+  fitMode: FitMode,
+  speakers?: SpeakerSettings
+) => {
+  drawVideoFrame(ctx, video, fitMode, getCropCenter(clip.cropPath, relativeTime));
+  drawCaptions(ctx, clip, relativeTime, template, customStyle, speakers);
+};
@@ -0,0 +1,83 @@
+import { getSourceSignal, loadVideo, releaseVideo, seekVideo } from './mediaService';
+
+const MIN_SAMPLE_INTERVAL = 0.5; // seconds between compared frames
+const MAX_SAMPLES = 600;         // long sources are sampled more sparsely
+const FRAME_WIDTH = 32;          // frames are compared at this tiny size
+const HISTOGRAM_BINS = 8;        // per colour channel
+const CUT_THRESHOLD = 0.35;      // histogram difference (0-1) that counts as a new shot
+const MIN_SCENE_LENGTH = 1;      // seconds; flashes and fast pans don't make a run of cuts
+
+// Scene detection seeks through the whole source, so keep the result per URL until it's released
+const sceneCache = new Map<string, number[]>();
+
+// Normalised colour histogram of an RGBA frame
+const getHistogram = (data: Uint8ClampedArray): Float32Array => {
+  const histogram = new Float32Array(HISTOGRAM_BINS * 3);
+  const pixels = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      histogram[c * HISTOGRAM_BINS + Math.floor((data[i + c] * HISTOGRAM_BINS) / 256)] += 1 / pixels;
+    }
+  }
+  return histogram;
+};
+
+// 0 for identical colour distributions, 1 for completely different ones
+const histogramDistance = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / 6; // Each channel's histogram sums to 1, so the total difference is at most 6
+};
+
+// Times (seconds into the source) where the shot changes, found by comparing the colour
+// histograms of frames sampled across the whole video. Stops when `signal` aborts or the
+// source URL is released.
+export const detectSceneCuts = async (videoUrl: string, onProgress?: (percent: number) => void, signal?: AbortSignal): Promise<number[]> => {
+  const cached = sceneCache.get(videoUrl);
+  if (cached) return cached;
+
+  const sourceSignal = getSourceSignal(videoUrl);
+  const controller = new AbortController();
+  const stop = (reason: unknown) => controller.abort(reason);
+  const onCallerAbort = () => stop(signal!.reason);
+  const onSourceAbort = () => stop(sourceSignal.reason);
+  if (signal?.aborted) stop(signal.reason);
+  if (sourceSignal.aborted) stop(sourceSignal.reason);
+  signal?.addEventListener('abort', onCallerAbort);
+  sourceSignal.addEventListener('abort', onSourceAbort);
+
+  let video: HTMLVideoElement | null = null;
+  try {
+    controller.signal.throwIfAborted();
+    video = await loadVideo(videoUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = FRAME_WIDTH;
+    canvas.height = Math.max(1, Math.round(FRAME_WIDTH * (video.videoHeight / video.videoWidth || 9 / 16)));
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return [];
+
+    const interval = Math.max(MIN_SAMPLE_INTERVAL, video.duration / MAX_SAMPLES);
+    const cuts: number[] = [];
+    let previous: Float32Array | null = null;
+
+    for (let t = 0; t < video.duration; t += interval) {
+      await seekVideo(video, t, controller.signal);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const histogram = getHistogram(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+      const lastCut = cuts[cuts.length - 1] ?? -Infinity;
+      if (previous && histogramDistance(previous, histogram) > CUT_THRESHOLD && t - lastCut >= MIN_SCENE_LENGTH) {
+        cuts.push(Math.round(t * 100) / 100);
+      }
+      previous = histogram;
+      onProgress?.(Math.min(100, (t / video.duration) * 100));
+    }
+
+    sceneCache.set(videoUrl, cuts);
+    sourceSignal.addEventListener('abort', () => sceneCache.delete(videoUrl), { once: true });
+    return cuts;
+  } finally {
+    if (video) releaseVideo(video);
+    signal?.removeEventListener('abort', onCallerAbort);
+    sourceSignal.removeEventListener('abort', onSourceAbort);
+  }
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { VideoClip } from '../types';
+import { findSegmentIndex, getClipDuration, getSegmentOffset, isSupercut, toClipTime, toSourceTime } from './segmentService';
+
+const clip = (startTime: number, endTime: number, segments?: VideoClip['segments']): VideoClip => ({
+  id: '1', title: 'Clip', description: '', viralScore: 50, captions: [], startTime, endTime, ...(segments ? { segments } : {})
+});
+
+const plain = clip(30, 60);
+const supercut = clip(10, 110, [
+  { startTime: 10, endTime: 20 },
+  { startTime: 50, endTime: 55 },
+  { startTime: 100, endTime: 110 }
+]);
+
+describe('clip timeline', () => {
+  it('measures a plain clip and a supercut', () => {
+    expect([getClipDuration(plain), isSupercut(plain)]).toEqual([30, false]);
+    expect([getClipDuration(supercut), isSupercut(supercut)]).toEqual([25, true]);
+    expect(getSegmentOffset(supercut.segments!, 2)).toBe(15);
+  });
+
+  it.each([
+    ['the start of a plain clip', plain, 0, 30],
+    ['inside a plain clip', plain, 5, 35],
+    ['past the end of a plain clip', plain, 35, 65],
+    ['the first segment', supercut, 9.5, 19.5],
+    ['the start of the second segment', supercut, 10, 50],
+    ['inside the second segment', supercut, 14, 54],
+    ['the third segment', supercut, 15, 100],
+    ['the end of a supercut', supercut, 25, 110],
+    ['past the end of a supercut', supercut, 27, 112]
+  ])('maps %s to source time', (_name, target, relative, source) => {
+    expect(toSourceTime(target, relative)).toBe(source);
+  });
+
+  it.each([
+    ['inside a plain clip', plain, 35, undefined, 5],
+    ['the first segment', supercut, 12, undefined, 2],
+    ['the second segment', supercut, 52, undefined, 12],
+    ['the third segment', supercut, 105, undefined, 20],
+    ['a gap, from the first segment', supercut, 30, undefined, 20],
+    ['a gap, from a known segment', supercut, 49, 1, 9]
+  ])('maps %s to clip time', (_name, target, source, segmentIndex, relative) => {
+    expect(toClipTime(target, source, segmentIndex)).toBe(relative);
+  });
+
+  it.each([
+    ['the first range that plays it', 7, -1, 0],
+    ['the preferred range when ranges overlap', 7, 1, 1],
+    ['another range when the preferred one misses', 12, 0, 1],
+    ['-1 outside every range', 20, -1, -1],
+    ['-1 at an exclusive end', 15, -1, -1]
+  ])('finds %s', (_name, source, preferred, index) => {
+    const overlapping = [{ startTime: 0, endTime: 10 }, { startTime: 5, endTime: 15 }];
+    expect(findSegmentIndex(overlapping, source, preferred)).toBe(index);
+  });
+});
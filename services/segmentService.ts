@@ -0,0 +1,48 @@
+import { ClipSegment, VideoClip } from '../types';
+
+// The source ranges a clip plays, in order. A plain clip is one range.
+export const getClipSegments = (clip: VideoClip): ClipSegment[] => {
+  if (clip.segments && clip.segments.length > 0) return clip.segments;
+  return [{ startTime: clip.startTime, endTime: clip.endTime }];
+};
+
+export const isSupercut = (clip: VideoClip): boolean => !!clip.segments && clip.segments.length > 1;
+
+// Length of the finished short in seconds
+export const getClipDuration = (clip: VideoClip): number => {
+  return getClipSegments(clip).reduce((sum, s) => sum + (s.endTime - s.startTime), 0);
+};
+
+// Where segment `index` starts in the finished short
+export const getSegmentOffset = (segments: ClipSegment[], index: number): number => {
+  return segments.slice(0, index).reduce((sum, s) => sum + (s.endTime - s.startTime), 0);
+};
+
+// Segment playing a source time, preferring `preferred` when ranges overlap. -1 if none.
+export const findSegmentIndex = (segments: ClipSegment[], sourceTime: number, preferred = -1): number => {
+  const contains = (s?: ClipSegment) => !!s && sourceTime >= s.startTime && sourceTime < s.endTime;
+  if (contains(segments[preferred])) return preferred;
+  return segments.findIndex(s => contains(s));
+};
+
+// Source video time for a time in the finished short
+export const toSourceTime = (clip: VideoClip, relativeTime: number): number => {
+  const segments = getClipSegments(clip);
+  let offset = 0;
+  for (const segment of segments) {
+    const length = segment.endTime - segment.startTime;
+    if (relativeTime < offset + length) return segment.startTime + Math.max(0, relativeTime - offset);
+    offset += length;
+  }
+  const last = segments[segments.length - 1];
+  return last.endTime + (relativeTime - offset);
+};
+
+// Time in the finished short for a source video time. Outside every segment it's measured
+// from the first one (or `segmentIndex` if known), like a plain clip.
+export const toClipTime = (clip: VideoClip, sourceTime: number, segmentIndex?: number): number => {
+  const segments = getClipSegments(clip);
+  const found = segmentIndex ?? findSegmentIndex(segments, sourceTime);
+  const index = found === -1 ? 0 : found;
+  return getSegmentOffset(segments, index) + sourceTime - segments[index].startTime;
+};
@@ -0,0 +1,33 @@
+import { Caption, SpeakerSettings } from '../types';
+import { SPEAKER_COLORS } from '../constants';
+
+// Position of a label in the default palette: "Speaker 2" -> 1, "B" -> 1, anything else hashed
+const getPaletteIndex = (label: string) => {
+  const number = label.match(/(\d+)\s*$/);
+  if (number) return Math.max(0, parseInt(number[1], 10) - 1);
+  if (/^[A-Z]$/i.test(label)) return label.toUpperCase().charCodeAt(0) - 65;
+  return Array.from(label).reduce((sum, char) => sum + char.charCodeAt(0), 0);
+};
+
+// Speaker labels in order of first appearance
+export const getSpeakerLabels = (captionLists: Caption[][]): string[] => {
+  const labels: string[] = [];
+  captionLists.forEach(captions => captions.forEach(c => {
+    if (c.speaker && !labels.includes(c.speaker)) labels.push(c.speaker);
+  }));
+  return labels;
+};
+
+export const getSpeakerName = (label: string, speakers?: SpeakerSettings) => speakers?.styles[label]?.name || label;
+
+export const getSpeakerColor = (label: string, speakers?: SpeakerSettings) =>
+  speakers?.styles[label]?.color || SPEAKER_COLORS[getPaletteIndex(label) % SPEAKER_COLORS.length];
+
+// Rename or recolour one speaker
+export const updateSpeaker = (speakers: SpeakerSettings, label: string, changes: { name?: string; color?: string }): SpeakerSettings => ({
+  ...speakers,
+  styles: {
+    ...speakers.styles,
+    [label]: { name: getSpeakerName(label, speakers), color: getSpeakerColor(label, speakers), ...changes }
+  }
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Caption, CustomCaptionStyle, SpeakerSettings } from '../types';
+import { TEMPLATES } from '../constants';
+import { parseSubtitles, serializeSubtitles, SubtitleFormat } from './subtitleService';
+
+const speakers: SpeakerSettings = {
+  colorCaptions: false,
+  styles: { 'Speaker 2': { name: 'Ana', color: '#22c55e' } }
+};
+const labels = ['Speaker 1', 'Speaker 2'];
+const customStyle: CustomCaptionStyle = { textColor: '#ffffff', backgroundColor: '#000000', bgOpacity: 0, fontWeight: '700' };
+
+const captions: Caption[] = [
+  { text: 'Hello & <welcome> back', start: 0, end: 1.234, speaker: 'Speaker 1' },
+  { text: 'Note: no speaker here', start: 1.234, end: 2.5 },
+  {
+    text: 'We did {it} again',
+    start: 2.5,
+    end: 3.999,
+    speaker: 'Speaker 2',
+    words: [
+      { text: 'We', start: 2.5, end: 2.7 },
+      { text: 'did', start: 2.7, end: 3 },
+      { text: '{it}', start: 3, end: 3.4 },
+      { text: 'again', start: 3.4, end: 3.999 }
+    ],
+    enrichment: { emoji: '🚀', showEmoji: true, highlights: [{ start: 1, end: 2 }], showHighlights: true }
+  },
+  { text: 'Over an hour in', start: 3725.001, end: 3727.5 }
+];
+
+// What SRT and WebVTT can carry: timings, text and speaker
+const expected = captions.map(({ text, start, end, speaker }) => ({ text, start, end, ...(speaker ? { speaker } : {}) }));
+
+const serialize = (format: SubtitleFormat, list: Caption[]) =>
+  serializeSubtitles(format, list, TEMPLATES[0], customStyle, 'Test', speakers);
+
+describe('subtitle round trip', () => {
+  it.each<SubtitleFormat>(['srt', 'vtt'])('imports an exported %s file as the same captions', format => {
+    expect(parseSubtitles(serialize(format, captions), speakers, labels)).toEqual(expected);
+  });
+
+  it('takes the voice of an unknown WebVTT speaker as its label', () => {
+    expect(parseSubtitles(serialize('vtt', captions)).map(c => c.speaker)).toEqual(['Speaker 1', undefined, 'Ana', undefined]);
+  });
+
+  it('leaves an SRT prefix that names no known speaker in the text', () => {
+    const parsed = parseSubtitles(serialize('srt', captions));
+
+    expect(parsed.every(c => c.speaker === undefined)).toBe(true);
+    expect(parsed[2].text).toBe('Ana: We did {it} again');
+  });
+
+  it('writes speaker prefixes in SRT and voice tags in WebVTT', () => {
+    expect(serialize('srt', captions.slice(2, 3))).toBe('1\n00:00:02,500 --> 00:00:03,999\nAna: We did {it} again\n');
+    expect(serialize('vtt', captions.slice(0, 1))).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:01.234\n<v Speaker 1>Hello &amp; &lt;welcome&gt; back\n');
+  });
+
+  it('keeps the enrichment emoji in ASS only', () => {
+    expect(serialize('srt', captions)).not.toContain('🚀');
+    expect(serialize('vtt', captions)).not.toContain('🚀');
+    expect(serialize('ass', captions)).toContain('🚀');
+  });
+});
+
+describe('parseSubtitles', () => {
+  it.each([
+    ['short VTT timestamps', 'WEBVTT\n\n01:02.5 --> 01:04.250 align:start\nHi', [{ text: 'Hi', start: 62.5, end: 64.25 }]],
+    ['SRT styling tags', '1\n00:00:01,000 --> 00:00:02,000\n{\\an8}<i>Up</i> <b>top</b>', [{ text: 'Up top', start: 1, end: 2 }]],
+    ['multi-line cues', '1\n00:00:01,000 --> 00:00:02,000\nfirst\nsecond', [{ text: 'first second', start: 1, end: 2 }]],
+    ['NOTE blocks and a BOM', '﻿WEBVTT\n\nNOTE hello\n\n00:00.000 --> 00:01.000\nA', [{ text: 'A', start: 0, end: 1 }]],
+    ['cues out of order', '2\n00:00:05,000 --> 00:00:06,000\nB\n\n1\n00:00:01,000 --> 00:00:02,000\nA', [
+      { text: 'A', start: 1, end: 2 },
+      { text: 'B', start: 5, end: 6 }
+    ]]
+  ])('reads %s', (_name, content, result) => {
+    expect(parseSubtitles(content)).toEqual(result);
+  });
+
+  it('rejects a file without cues', () => {
+    expect(() => parseSubtitles('WEBVTT\n\nNOTE nothing here')).toThrow('No subtitle cues found');
+  });
+});
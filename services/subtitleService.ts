@@ -0,0 +1,261 @@
+import { Caption, CustomCaptionStyle, SpeakerSettings, Template } from '../types';
+import { CAPTION_REFERENCE_SIZE, applyCasing, resolveCaptionStyle } from './captionRenderer';
+import { getCaptionWords, isHighlightedWord } from './captionService';
+import { getCaptionEmoji } from './enrichmentService';
+import { getSpeakerColor, getSpeakerName } from './speakerService';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ass: 'text/x-ssa'
+};
+
+// --- Timestamps ---
+
+const splitTime = (seconds: number) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    h: Math.floor(totalMs / 3600000),
+    m: Math.floor((totalMs % 3600000) / 60000),
+    s: Math.floor((totalMs % 60000) / 1000),
+    ms: totalMs % 1000
+  };
+};
+
+const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+
+// 00:01:02,345
+const formatSrtTime = (seconds: number) => {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms, 3)}`;
+};
+
+// 00:01:02.345
+const formatVttTime = (seconds: number) => formatSrtTime(seconds).replace(',', '.');
+
+// 0:01:02.35 (ASS only has centisecond precision)
+const formatAssTime = (seconds: number) => {
+  const cs = Math.max(0, Math.round(seconds * 100));
+  const h = Math.floor(cs / 360000);
+  const m = Math.floor((cs % 360000) / 6000);
+  const s = Math.floor((cs % 6000) / 100);
+  return `${h}:${pad(m)}:${pad(s)}.${pad(cs % 100)}`;
+};
+
+// Accepts "HH:MM:SS,mmm", "HH:MM:SS.mmm" and the VTT short form "MM:SS.mmm"
+const parseTimestamp = (value: string): number => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/);
+  if (!match) throw new Error(`Invalid timestamp "${value}"`);
+  const [, h, m, s, frac] = match;
+  const ms = (parseInt(h || '0', 10) * 3600 + parseInt(m, 10) * 60 + parseInt(s, 10)) * 1000 + parseInt(frac.padEnd(3, '0'), 10);
+  return ms / 1000;
+};
+
+// --- Writers ---
+
+// Cue text is markup in WebVTT, so &, < and > have to be entities
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// In ASS, { } start and end override tags and \ starts an escape; a backslash makes them literal
+const escapeAss = (text: string) => text.replace(/[{}\\]/g, char => `\\${char}`);
+
+// Caption text on one line. SRT and WebVTT carry only the spoken text (and the speaker), so an
+// exported file imports back to the same captions; enrichment emoji are for burned-in styles.
+const cueText = (caption: Caption) => caption.text.replace(/\r?\n/g, ' ').trim();
+
+// SRT has no voice tag, so diarized cues get the speaker's name as a prefix
+export const toSrt = (captions: Caption[], speakers?: SpeakerSettings): string => {
+  return captions
+    .map((c, i) => {
+      const text = c.speaker ? `${getSpeakerName(c.speaker, speakers)}: ${cueText(c)}` : cueText(c);
+      return `${i + 1}\n${formatSrtTime(c.start)} --> ${formatSrtTime(c.end)}\n${text}\n`;
+    })
+    .join('\n');
+};
+
+// Diarized cues are wrapped in a WebVTT voice span, e.g. <v Ana>Hello
+export const toVtt = (captions: Caption[], speakers?: SpeakerSettings): string => {
+  const cues = captions
+    .map(c => {
+      const text = c.speaker ? `<v ${escapeVtt(getSpeakerName(c.speaker, speakers))}>${escapeVtt(cueText(c))}` : escapeVtt(cueText(c));
+      return `${formatVttTime(c.start)} --> ${formatVttTime(c.end)}\n${text}\n`;
+    })
+    .join('\n');
+  return `WEBVTT\n\n${cues}`;
+};
+
+// Template sizes are relative to a 1080px short side, so a 9:16 script at that size needs no conversion
+const ASS_PLAY_RES = { x: CAPTION_REFERENCE_SIZE, y: 1920 };
+
+// First family in a CSS font-family list, e.g. "'Courier New', monospace" -> Courier New
+const primaryFont = (fontFamily: string) => fontFamily.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+
+
+// ASS colours are &HAABBGGRR with inverted alpha (00 = opaque)
+const toAssColor = (hex: string, opacityPercent = 100) => {
+  const clean = hex.replace('#', '');
+  const r = clean.substring(0, 2);
+  const g = clean.substring(2, 4);
+  const b = clean.substring(4, 6);
+  const alpha = Math.round(255 * (1 - opacityPercent / 100)).toString(16).padStart(2, '0');
+  return `&H${alpha}${b}${g}${r}`.toUpperCase();
+};
+
+export const toAss = (
+  captions: Caption[],
+  template: Template,
+  customStyle: CustomCaptionStyle,
+  title = 'ClipGenius',
+  speakers?: SpeakerSettings
+): string => {
+  const layout = resolveCaptionStyle(template, customStyle);
+  const box = layout.box;
+  const bold = parseInt(layout.fontWeight, 10) >= 600 ? -1 : 0;
+  // Alignment 2 = bottom center, 8 = top center; MarginV is measured from that edge
+  const topAligned = layout.position.y < 0.5;
+  const alignment = topAligned ? 8 : 2;
+  const y = layout.position.y;
+  const marginV = Math.round(topAligned ? y * ASS_PLAY_RES.y - layout.fontSize / 2 : (1 - y) * ASS_PLAY_RES.y - layout.fontSize / 2);
+
+  const style = [
+    'Default',
+    primaryFont(layout.fontFamily),
+    layout.fontSize,
+    toAssColor(layout.color),
+    toAssColor(layout.highlightColor),
+    toAssColor(layout.stroke?.color || '#000000'),
+    box ? toAssColor(box.color, box.opacity) : toAssColor('#000000', 0),
+    bold,
+    layout.italic ? -1 : 0,
+    0, 0, 100, 100,
+    layout.letterSpacing,
+    -layout.rotation, // ASS angles are counter-clockwise
+    box ? 3 : 1, // 3 = opaque box behind the text
+    box ? box.paddingY : layout.stroke?.width || 0,
+    0,
+    alignment,
+    40, 40, marginV,
+    1
+  ].join(',');
+
+  // Enrichment key words switch to the highlight colour (\c takes &HBBGGRR&, no alpha) and back.
+  // With speaker colours on, the line starts in its speaker's colour and returns to it.
+  const colorTag = (hex: string) => `{\\c&H${toAssColor(hex).slice(4)}&}`;
+  const highlight = colorTag(layout.highlightColor);
+  const assText = (c: Caption) => {
+    const speakerColor = c.speaker && speakers?.colorCaptions ? colorTag(getSpeakerColor(c.speaker, speakers)) : '';
+    const emoji = getCaptionEmoji(c);
+    if (!c.enrichment?.showHighlights) {
+      return `${speakerColor}${escapeAss(applyCasing(emoji ? `${cueText(c)} ${emoji}` : cueText(c), layout))}`;
+    }
+    const words = getCaptionWords(c).map((word, i) => {
+      const cased = escapeAss(applyCasing(word, layout));
+      return isHighlightedWord(c, i) ? `${highlight}${cased}{\\r}${speakerColor}` : cased;
+    });
+    return speakerColor + [...words, ...(emoji ? [emoji] : [])].join(' ');
+  };
+
+  // The Name field is comma separated like the rest of the line
+  const events = captions.map(c => {
+    const text = assText(c);
+    const name = c.speaker ? getSpeakerName(c.speaker, speakers).replace(/,/g, ' ') : '';
+    return `Dialogue: 0,${formatAssTime(c.start)},${formatAssTime(c.end)},Default,${name},0,0,0,,${text}`;
+  });
+
+  return [
+    '[Script Info]',
+    `Title: ${title}`,
+    'ScriptType: v4.00+',
+    `PlayResX: ${ASS_PLAY_RES.x}`,
+    `PlayResY: ${ASS_PLAY_RES.y}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: ${style}`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    ''
+  ].join('\n');
+};
+
+// --- Reader ---
+
+const decodeVtt = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&amp;/g, '&');
+
+// Styling and timestamp tags of SRT and WebVTT cues. Other angle brackets in an SRT cue are text.
+const FORMATTING_TAGS = /<\/?(?:b|i|u|s|c|v|font|lang|ruby|rt)(?:[.\s][^>]*)?>|<\d{1,2}:[\d:.]+>/gi;
+
+// SRT speaker prefix as toSrt writes it, e.g. "Ana: Hello"
+const SPEAKER_PREFIX = /^([^:]{1,60}):\s+(.+)$/;
+
+// Parses SRT or WebVTT into captions. Cue settings, styling tags and NOTE/STYLE blocks are ignored.
+// A WebVTT voice span (<v Name>), or in SRT a "Name: " prefix naming one of `labels` (as shown
+// with `speakers`), becomes the caption's speaker label again. Timings are taken as they are;
+// callers fit them to the clip with normalizeTranscription.
+export const parseSubtitles = (content: string, speakers?: SpeakerSettings, labels: string[] = []): Caption[] => {
+  // Display name -> label, for speakers the exported file was written with
+  const labelsByName = new Map<string, string>();
+  [...labels, ...Object.keys(speakers?.styles || {})].forEach(label => labelsByName.set(getSpeakerName(label, speakers), label));
+
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const captions: Caption[] = [];
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(l => l.trim().length > 0);
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE, STYLE, stray text
+
+    const [startRaw, rest] = lines[timingIndex].split('-->');
+    const endRaw = rest.trim().split(/\s+/)[0]; // drop VTT cue settings
+    const raw = lines.slice(timingIndex + 1).join(' ');
+    const voice = raw.match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/)?.[1].trim();
+    let text = decodeVtt(raw
+      .replace(FORMATTING_TAGS, '')
+      .replace(/\{\\[^}]*\}/g, '') // ASS override tags some SRT files carry, e.g. {\an8}
+      .trim());
+    let speaker = voice && decodeVtt(voice);
+    if (speaker) {
+      speaker = labelsByName.get(speaker) ?? speaker;
+    } else {
+      const prefix = text.match(SPEAKER_PREFIX);
+      if (prefix && labelsByName.has(prefix[1])) {
+        speaker = labelsByName.get(prefix[1]);
+        text = prefix[2];
+      }
+    }
+
+    if (!text) continue;
+    captions.push({ text, start: parseTimestamp(startRaw), end: parseTimestamp(endRaw), ...(speaker ? { speaker } : {}) });
+  }
+
+  if (captions.length === 0) throw new Error("No subtitle cues found");
+  return captions.sort((a, b) => a.start - b.start);
+};
+
+export const serializeSubtitles = (
+  format: SubtitleFormat,
+  captions: Caption[],
+  template: Template,
+  customStyle: CustomCaptionStyle,
+  title?: string,
+  speakers?: SpeakerSettings
+): string => {
+  switch (format) {
+    case 'srt': return toSrt(captions, speakers);
+    case 'vtt': return toVtt(captions, speakers);
+    case 'ass': return toAss(captions, template, customStyle, title, speakers);
+  }
+};
@@ -0,0 +1,79 @@
+import { Caption, CaptionWord, VideoClip, WordRange } from '../types';
+import { createManualClip } from './clipService';
+
+const TITLE_WORDS = 6;
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+// A word of the transcript in source time, with the chunk it came from
+export interface TranscriptWord extends CaptionWord {
+  index: number;        // Position in the whole transcript
+  captionIndex: number; // Transcript chunk the word belongs to
+  speaker?: string;     // The chunk's diarization label
+}
+
+// Every word of a transcript in order. Chunks without word timings get their text spread
+// evenly over the chunk.
+export const getTranscriptWords = (transcript: Caption[]): TranscriptWord[] => {
+  const words: TranscriptWord[] = [];
+  transcript.forEach((caption, captionIndex) => {
+    const timed: CaptionWord[] = caption.words && caption.words.length > 0
+      ? caption.words
+      : caption.text.split(/\s+/).filter(Boolean).map((text, i, all) => {
+          const step = (caption.end - caption.start) / all.length;
+          return { text, start: round3(caption.start + i * step), end: round3(caption.start + (i + 1) * step) };
+        });
+    timed.forEach(word => words.push({ ...word, index: words.length, captionIndex, ...(caption.speaker ? { speaker: caption.speaker } : {}) }));
+  });
+  return words;
+};
+
+const normalizeWord = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+// Word ranges [start, end) where the words of `query` occur in a row
+export const searchTranscript = (words: TranscriptWord[], query: string): WordRange[] => {
+  const terms = query.split(/\s+/).map(normalizeWord).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const texts = words.map(w => normalizeWord(w.text));
+  const matches: WordRange[] = [];
+  for (let i = 0; i + terms.length <= texts.length; i++) {
+    // The last term may be a word still being typed
+    const found = terms.every((term, j) => (j === terms.length - 1 ? texts[i + j].startsWith(term) : texts[i + j] === term));
+    if (found) matches.push({ start: i, end: i + terms.length });
+  }
+  return matches;
+};
+
+// A new clip spanning transcript words [first, last]. Its captions are the selected words,
+// keeping the transcript's chunking and speakers, moved onto the clip's timeline.
+export const createClipFromTranscript = (words: TranscriptWord[], first: number, last: number): VideoClip => {
+  const selected = words.slice(Math.min(first, last), Math.max(first, last) + 1);
+  const clip = createManualClip(selected[0].start, selected[selected.length - 1].end);
+
+  const captions: Caption[] = [];
+  selected.forEach((word, i) => {
+    const rebased: CaptionWord = {
+      text: word.text,
+      start: round3(Math.max(0, word.start - clip.startTime)),
+      end: round3(Math.max(0, word.end - clip.startTime)),
+      ...(word.emphasis ? { emphasis: true } : {})
+    };
+    const previous = captions[captions.length - 1];
+    if (i > 0 && selected[i - 1].captionIndex === word.captionIndex) {
+      previous.words!.push(rebased);
+      previous.text = `${previous.text} ${word.text}`;
+      previous.end = rebased.end;
+    } else {
+      captions.push({ text: word.text, start: rebased.start, end: rebased.end, words: [rebased], ...(word.speaker ? { speaker: word.speaker } : {}) });
+    }
+  });
+
+  const quote = selected.slice(0, TITLE_WORDS).map(w => w.text).join(' ');
+  return {
+    ...clip,
+    title: `"${quote}${selected.length > TITLE_WORDS ? '…' : ''}"`,
+    description: 'Selected from the transcript.',
+    captions
+  };
+};
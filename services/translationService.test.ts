@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Caption, VideoClip } from '../types';
+import { rebaseCaptions } from './captionService';
+import { mapCaptionTracks, parseTranslationResponse, removeCaptionTrack, setCaptionTrack, withCaptionTrack } from './translationService';
+
+const original: Caption[] = [{ text: 'Hello', start: 0, end: 1 }];
+const spanish: Caption[] = [{ text: 'Hola', start: 0, end: 1 }];
+const clip: VideoClip = {
+  id: '1', title: 'Clip', description: '', viralScore: 50, startTime: 0, endTime: 10, captions: original, captionTracks: { es: spanish }
+};
+
+describe('caption tracks', () => {
+  it.each([
+    ['a translation', 'es', spanish],
+    ['the original for a language without a track', 'fr', original],
+    ['the original without a language', undefined, original]
+  ])('shows %s', (_name, language, captions) => {
+    expect(withCaptionTrack(clip, language).captions).toBe(captions);
+  });
+
+  it.each([
+    ['the translation shown', 'es', { captions: original, captionTracks: { es: [{ text: 'Hola!', start: 0, end: 1 }] } }],
+    ['the original for a language without a track', 'fr', { captions: [{ text: 'Hola!', start: 0, end: 1 }], captionTracks: { es: spanish } }]
+  ])('edits %s', (_name, language, expected) => {
+    expect(setCaptionTrack(clip, language, [{ text: 'Hola!', start: 0, end: 1 }])).toMatchObject(expected);
+  });
+
+  it('drops the track list with its last translation', () => {
+    expect(removeCaptionTrack(clip, 'es')).not.toHaveProperty('captionTracks');
+    expect(removeCaptionTrack({ ...clip, captionTracks: { es: spanish, fr: spanish } }, 'es').captionTracks).toEqual({ fr: spanish });
+  });
+
+  it('applies a timing change to every track', () => {
+    expect(mapCaptionTracks(clip, captions => rebaseCaptions(captions, -2, 10))).toEqual({
+      captions: [{ text: 'Hello', start: 2, end: 3 }],
+      captionTracks: { es: [{ text: 'Hola', start: 2, end: 3 }] }
+    });
+  });
+});
+
+describe('parseTranslationResponse', () => {
+  const captions: Caption[] = [
+    {
+      text: 'Hello world',
+      start: 0,
+      end: 2,
+      speaker: 'Speaker 1',
+      words: [{ text: 'Hello', start: 0, end: 1 }, { text: 'world', start: 1, end: 2 }],
+      enrichment: { emoji: '👋', showEmoji: true, highlights: [{ start: 1, end: 2 }], showHighlights: true }
+    },
+    { text: 'Bye', start: 2, end: 3 }
+  ];
+
+  it.each([
+    ['a list', '[{"index":1,"text":"Adiós"},{"index":0,"text":" Hola mundo "}]'],
+    ['an object with a list', '{"captions":[{"index":0,"text":"Hola mundo"},{"index":1,"text":"Adiós"}]}']
+  ])('matches the answers in %s back to the captions', (_name, response) => {
+    expect(parseTranslationResponse(captions, response)).toEqual([
+      {
+        text: 'Hola mundo',
+        start: 0,
+        end: 2,
+        speaker: 'Speaker 1',
+        enrichment: { emoji: '👋', showEmoji: true, highlights: [], showHighlights: false }
+      },
+      { text: 'Adiós', start: 2, end: 3 }
+    ]);
+  });
+
+  it.each([
+    ['without a list', '{"text":"Hola"}', 'Response did not contain a list of captions'],
+    ['missing a caption', '[{"index":0,"text":"Hola mundo"}]', 'Translation is missing captions 1'],
+    ['with an empty caption', '[{"index":0,"text":"Hola mundo"},{"index":1,"text":" "}]', 'Translation is missing captions 1']
+  ])('rejects an answer %s', (_name, response, message) => {
+    expect(() => parseTranslationResponse(captions, response)).toThrow(message);
+  });
+
+  it.each([
+    ['by words', 'a b c d e f g h i j', [['a b c d e', 0, 2], ['f g h i j', 2, 4]]],
+    ['by characters without spaces', 'あ'.repeat(90), [['あ'.repeat(30), 0, 1.333], ['あ'.repeat(30), 1.333, 2.666], ['あ'.repeat(30), 2.666, 4]]]
+  ])('splits a long translation %s, keeping the speaker and giving the emoji to the last part', (_name, translation, parts) => {
+    const caption: Caption = { text: 'Hi', start: 0, end: 4, speaker: 'Speaker 2', enrichment: { emoji: '🔥', showEmoji: true, highlights: [], showHighlights: false } };
+
+    const result = parseTranslationResponse([caption], JSON.stringify([{ index: 0, text: translation }]));
+
+    expect(result.map(c => [c.text, c.start, c.end])).toEqual(parts);
+    expect(result.every(c => c.speaker === 'Speaker 2')).toBe(true);
+    expect(result.map(c => c.enrichment?.emoji)).toEqual([...parts.slice(1).map(() => undefined), '🔥']);
+  });
+});
@@ -0,0 +1,115 @@
+import { Caption, VideoClip } from '../types';
+
+const MAX_CHUNK_WORDS = 8;  // Same upper bound the transcription prompts ask for
+const MAX_CHUNK_CHARS = 40; // For scripts written without spaces, e.g. Japanese
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+// --- Tracks ---
+
+// The clip as it looks with the `language` track shown; the original captions when the clip
+// has no such track
+export const withCaptionTrack = (clip: VideoClip, language?: string): VideoClip => {
+  const track = language ? clip.captionTracks?.[language] : undefined;
+  return track ? { ...clip, captions: track } : clip;
+};
+
+// Replace the captions of whichever track `withCaptionTrack` shows for `language`
+export const setCaptionTrack = (clip: VideoClip, language: string | undefined, captions: Caption[]): VideoClip => {
+  if (!language || !clip.captionTracks?.[language]) return { ...clip, captions };
+  return { ...clip, captionTracks: { ...clip.captionTracks, [language]: captions } };
+};
+
+export const removeCaptionTrack = (clip: VideoClip, language: string): VideoClip => {
+  const { captionTracks, ...rest } = clip;
+  const { [language]: removed, ...remaining } = captionTracks || {};
+  return Object.keys(remaining).length > 0 ? { ...rest, captionTracks: remaining } : rest;
+};
+
+// Apply the same timing change (e.g. a trim) to the original captions and every translation
+export const mapCaptionTracks = (clip: VideoClip, transform: (captions: Caption[]) => Caption[]): Pick<VideoClip, 'captions' | 'captionTracks'> => ({
+  captions: transform(clip.captions),
+  ...(clip.captionTracks
+    ? { captionTracks: Object.fromEntries(Object.entries(clip.captionTracks).map(([language, captions]) => [language, transform(captions)])) }
+    : {})
+});
+
+// --- Translation ---
+
+// Prompt for the text-only translation pass. Captions are numbered so answers can be matched back.
+export const buildTranslationPrompt = (captions: Caption[], language: string): string => {
+  const lines = captions.map((caption, i) => `${i}: ${caption.text.replace(/\s+/g, ' ').trim()}`).join('\n');
+  return `
+    You are a professional subtitle translator for short-form video.
+
+    Translate each numbered caption below into ${language}.
+    1. Keep the meaning and tone; use natural, spoken ${language} rather than a word-for-word translation.
+    2. Translate each caption on its own so it still lines up with the speech. Do not merge or split captions.
+    3. Keep names, brands and numbers as they are. Write the language in its native script.
+
+    Return an array with one object per caption:
+    - index: The caption number.
+    - text: The translated caption.
+
+    Captions:
+    ${lines}
+  `;
+};
+
+// User-perceived characters, so a split never lands inside a combined character (e.g. Devanagari)
+const getGraphemes = (text: string): string[] => {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    return Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text), s => s.segment);
+  }
+  return Array.from(text);
+};
+
+// A translated caption over the original's time span. When the translation is too long to
+// read as one caption it is re-chunked, each part timed in proportion to its length.
+// Text written without spaces (one "word") is chunked by characters instead of words.
+const fitTranslation = (caption: Caption, text: string): Caption[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const byCharacter = words.length === 1;
+  const tokens = byCharacter ? getGraphemes(words[0]) : words;
+  const charLimit = Math.max(MAX_CHUNK_CHARS, caption.text.length);
+  const parts = Math.max(1, Math.min(tokens.length, Math.max(Math.ceil(words.length / MAX_CHUNK_WORDS), Math.ceil(text.length / charLimit))));
+  const chunks = Array.from({ length: parts }, (_, i) =>
+    tokens.slice(Math.round((i * tokens.length) / parts), Math.round(((i + 1) * tokens.length) / parts)).join(byCharacter ? '' : ' ')
+  );
+
+  // Word timings belong to the original speech and key words can't be matched across
+  // languages, so only the speaker and the emoji carry over
+  const emoji = caption.enrichment?.emoji
+    ? { enrichment: { emoji: caption.enrichment.emoji, showEmoji: caption.enrichment.showEmoji, highlights: [], showHighlights: false } }
+    : {};
+  const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  let start = caption.start;
+  return chunks.map((chunk, i) => {
+    const last = i === chunks.length - 1;
+    const end = last ? caption.end : round3(start + ((caption.end - caption.start) * chunk.length) / totalChars);
+    const part: Caption = { text: chunk, start, end, ...(caption.speaker ? { speaker: caption.speaker } : {}), ...(last ? emoji : {}) };
+    start = end;
+    return part;
+  });
+};
+
+interface TranslationAnswer {
+  index: number;
+  text?: string;
+}
+
+// Apply the model's JSON answer to the original captions. Every caption has to come back
+// translated; a partial answer would leave the track in two languages.
+export const parseTranslationResponse = (captions: Caption[], text: string): Caption[] => {
+  const parsed = JSON.parse(text);
+  const answers = (Array.isArray(parsed) ? parsed : parsed?.captions) as TranslationAnswer[] | undefined;
+  if (!Array.isArray(answers)) throw new Error("Response did not contain a list of captions");
+
+  const byIndex = new Map(answers
+    .filter(a => a && Number.isInteger(a.index) && typeof a.text === 'string' && a.text.trim())
+    .map(a => [a.index, a.text!.trim()]));
+  const missing = captions.map((_, i) => i).filter(i => !byIndex.has(i));
+  if (missing.length > 0) throw new Error(`Translation is missing captions ${missing.join(', ')}`);
+
+  return captions.flatMap((caption, i) => fitTranslation(caption, byIndex.get(i)!));
+};
@@ -6,10 +6,55 @@ export enum ClipStyle {
   GAME = 'GAME'
 }
 
+export interface CaptionWord {
+  text: string;
+  start: number; // Relative to clip start in seconds
+  end: number;   // Relative to clip start in seconds
+  emphasis?: boolean; // Key word flagged by the AI, animated with the template's emphasis effect
+}
+
+// Words [start, end) by index in the caption's word list
+export interface WordRange {
+  start: number;
+  end: number;
+}
+
+// Contextual emoji and key words added by the enrichment pass; each part can be switched off per caption
+export interface CaptionEnrichment {
+  emoji?: string;
+  showEmoji: boolean;
+  highlights: WordRange[];
+  showHighlights: boolean;
+}
+
 export interface Caption {
   text: string;
   start: number; // Relative to clip start in seconds
   end: number;   // Relative to clip start in seconds
+  words?: CaptionWord[]; // Optional word-level timings for karaoke highlighting
+  enrichment?: CaptionEnrichment;
+  speaker?: string; // Diarization label from the transcription, e.g. "Speaker 1"
+}
+
+// Position of the output crop within the source frame at a point in the clip
+export interface CropKeyframe {
+  time: number; // Relative to clip start in seconds
+  x: number;    // Horizontal center of the crop, 0-1 of the source width
+  y: number;    // Vertical center of the crop, 0-1 of the source height
+}
+
+// One source range of a multi-segment clip, in seconds of the source video
+export interface ClipSegment {
+  startTime: number;
+  endTime: number;
+}
+
+// Jump cut: fillers and silences found in a clip, cut out when enabled
+export interface JumpCutSettings {
+  enabled: boolean;      // Off = play the clip as it was, to compare
+  removeFillers: boolean;
+  minSilence: number;    // Shortest pause that gets cut, in seconds
+  removed: ClipSegment[]; // Ranges to cut, in seconds of the source video
 }
 
 export interface VideoClip {
@@ -17,18 +62,49 @@ export interface VideoClip {
   title: string;
   startTime: number; // in seconds
   endTime: number; // in seconds
+  segments?: ClipSegment[]; // Supercut: ranges played back to back; captions and crop times follow the joined timeline
   description: string;
   viralScore: number; // 1-100
-  captions: Caption[];
+  captions: Caption[]; // Original language, as transcribed
+  captionTracks?: Record<string, Caption[]>; // Translations keyed by language code, on the same timeline
+  warnings?: string[]; // What validation had to repair in the model output
+  cropPath?: CropKeyframe[]; // Reframing track; center crop when empty
+  jumpCut?: JumpCutSettings;
+  manual?: boolean; // Picked by hand on the source timeline rather than found by the analysis
+}
+
+export type CaptionCasing = 'none' | 'upper' | 'lower';
+// How a caption enters when it becomes active
+export type CaptionAnimation = 'none' | 'fade' | 'pop' | 'slide-up' | 'typewriter';
+// Motion applied to emphasized words while they are spoken
+export type EmphasisAnimation = 'none' | 'bounce' | 'shake';
+
+// Declarative caption look. Sizes are in pixels on a frame whose short side is 1080px
+// and are scaled to the actual preview / output size by the caption renderer.
+export interface CaptionTemplateStyle {
+  fontFamily: string; // CSS font-family list; the first entry is used for ASS subtitles
+  fontSize: number;
+  fontWeight: string;
+  italic: boolean;
+  letterSpacing: number;
+  casing: CaptionCasing;
+  color: string;
+  highlightColor: string; // Colour of the word currently being spoken
+  stroke?: { color: string; width: number };
+  shadow?: { color: string; blur: number; offsetX: number; offsetY: number }; // blur with no offset = glow
+  box?: { color: string; opacity: number; paddingX: number; paddingY: number; radius: number };
+  rotation: number; // degrees, positive = clockwise
+  position: { x: number; y: number }; // center of the caption block, 0-1 of the frame
+  maxWidth: number; // wrap width, 0-1 of the frame width
+  animation: CaptionAnimation;
+  emphasis: EmphasisAnimation;
 }
 
 export interface Template {
   id: ClipStyle;
   name: string;
-  previewColor: string;
-  fontClass: string;
-  containerClass: string;
-  textClass: string;
+  previewColor: string; // Tailwind background class for the template picker
+  style: CaptionTemplateStyle;
 }
 
 export interface CustomCaptionStyle {
@@ -36,6 +112,82 @@ export interface CustomCaptionStyle {
   backgroundColor: string;
   bgOpacity: number; // 0 to 100
   fontWeight: string; // '400', '700', '900'
+  // Optional overrides; the template's value is used when unset
+  fontFamily?: string; // Built-in or uploaded font family name
+  fontSize?: number; // px at a 1080px short side
+  outlineColor?: string;
+  outlineWidth?: number; // 0 removes the outline
+  positionY?: number; // Vertical center of the caption, 0-1 of the frame
+  highlightColor?: string;
+  animation?: CaptionAnimation;
+  emphasis?: EmphasisAnimation;
+}
+
+// A font file uploaded by the user, kept as a data URL so it can be stored and shared
+export interface UploadedFont {
+  family: string;
+  dataUrl: string;
+}
+
+// Named caption look (template + fine tuning) saved in the browser and shareable as JSON
+export interface CaptionPreset {
+  id: string;
+  name: string;
+  templateId: ClipStyle;
+  style: CustomCaptionStyle;
+}
+
+export type AspectRatio = '9:16' | '1:1' | '4:5' | '16:9';
+export type OutputResolution = '720p' | '1080p' | '4k';
+// How the source fills the output frame: cropped to cover, letterboxed, or letterboxed over a blurred copy
+export type FitMode = 'crop' | 'letterbox' | 'blur';
+
+export interface OutputSettings {
+  aspectRatio: AspectRatio;
+  resolution: OutputResolution;
+  fitMode: FitMode;
+}
+
+// Background music bed; the audio file itself is stored with the project
+export interface MusicSettings {
+  fileName: string;
+  volume: number;  // 0-100
+  fadeIn: number;  // seconds
+  fadeOut: number; // seconds
+  ducking: number; // How far the music drops while someone speaks, 0-100%
+}
+
+// How one speaker is shown, keyed by their diarization label
+export interface SpeakerStyle {
+  name: string;
+  color: string;
+}
+
+export interface SpeakerSettings {
+  colorCaptions: boolean; // Caption text takes the speaker's colour
+  styles: Record<string, SpeakerStyle>; // Only speakers that were renamed or recoloured
+}
+
+export interface EditorSettings {
+  templateId: ClipStyle;
+  customStyle: CustomCaptionStyle;
+  output: OutputSettings;
+  music?: MusicSettings;
+  speakers: SpeakerSettings;
+  captionLanguage?: string; // Track shown and burned in; the original captions when unset or a clip has no such track
+}
+
+// A saved analysis. The source video is stored separately, keyed by the same id.
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  videoName: string;
+  videoType: string;
+  clips: VideoClip[];
+  settings: EditorSettings;
+  transcript?: Caption[]; // Verbatim transcript of the whole source, in absolute seconds
 }
 
 export interface ProcessingState {
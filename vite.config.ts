@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_API_BASE_URL': JSON.stringify(env.GEMINI_API_BASE_URL),
+        'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER),
+        'process.env.OPENAI_COMPATIBLE_BASE_URL': JSON.stringify(env.OPENAI_COMPATIBLE_BASE_URL),
+        'process.env.OPENAI_COMPATIBLE_API_KEY': JSON.stringify(env.OPENAI_COMPATIBLE_API_KEY),
+        'process.env.OPENAI_COMPATIBLE_MODEL': JSON.stringify(env.OPENAI_COMPATIBLE_MODEL)
       },
       resolve: {
         alias: {